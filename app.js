@@ -61,7 +61,8 @@ async function apiCall(method, path, body = null) {
   const data = await res.json();
 
   if (!res.ok) {
-    throw new Error(data.error || `HTTP ${res.status}`);
+    const fields = (data.fields || []).map(f => f.message).join("; ");
+    throw new Error((data.error || `HTTP ${res.status}`) + (fields ? `: ${fields}` : ""));
   }
   return data;
 }
@@ -92,6 +93,17 @@ async function getPlayerView() {
   return apiCall("GET", `/server/${session.serverId}/view?playerId=${session.playerId}&token=${session.playerToken}`);
 }
 
+async function rejoinServer(playerRole) {
+  const data = await apiCall("POST", `/server/${session.serverId}/rejoin`, {
+    playerId: session.playerId,
+    playerToken: session.playerToken,
+    playerRole,
+  });
+  session.playerRole = data.role;
+  saveSession();
+  return data;
+}
+
 async function getServerStatus() {
   return apiCall("GET", `/server/${session.serverId}/status`);
 }
@@ -108,51 +120,18 @@ async function submitAction(actionType, params = {}) {
 // ACTION DEFINITIONS
 // ============================================================================
 
-const ACTIONS = {
-  citizen: [
-    { type: "work", label: "Work", params: [] },
-    { type: "consume", label: "Consume", params: [] },
-    { type: "vote_law", label: "Vote on Law", params: [
-      { name: "law_id", type: "text", label: "Law ID" },
-      { name: "vote", type: "select", label: "Vote", options: ["for", "against", "abstain"] },
-    ]},
-    { type: "join_movement", label: "Join Movement", params: [
-      { name: "movement_id", type: "text", label: "Movement ID" },
-    ]},
-    { type: "leave_movement", label: "Leave Movement", params: [] },
-  ],
-  business_owner: [
-    { type: "produce", label: "Produce", params: [] },
-    { type: "set_wages", label: "Set Wages", params: [
-      { name: "wage_level", type: "number", label: "Wage Level (0.1-10)" },
-    ]},
-    { type: "lobby", label: "Lobby", params: [
-      { name: "politician_id", type: "text", label: "Politician ID" },
-      { name: "amount", type: "number", label: "Amount" },
-    ]},
-    { type: "evade_taxes", label: "Evade Taxes", params: [] },
-    { type: "comply_taxes", label: "Comply", params: [] },
-  ],
-  politician: [
-    { type: "propose_law", label: "Propose Law", params: [
-      { name: "text", type: "textarea", label: "Law Text (free-form)" },
-    ]},
-    { type: "vote_law_politician", label: "Vote on Law", params: [
-      { name: "law_id", type: "text", label: "Law ID" },
-      { name: "vote", type: "select", label: "Vote", options: ["for", "against", "abstain"] },
-    ]},
-    { type: "allocate_budget", label: "Allocate Budget", params: [
-      { name: "welfare", type: "number", label: "Welfare (0-1)" },
-      { name: "infrastructure", type: "number", label: "Infrastructure (0-1)" },
-      { name: "enforcement", type: "number", label: "Enforcement (0-1)" },
-      { name: "education", type: "number", label: "Education (0-1)" },
-      { name: "discretionary", type: "number", label: "Discretionary (0-1)" },
-    ]},
-    { type: "publish_statement", label: "Statement", params: [
-      { name: "text", type: "textarea", label: "Statement Text" },
-    ]},
-  ],
-};
+// Served by the backend from the engine's action registry, keyed by role
+let ACTIONS = {};
+
+async function loadActions() {
+  const data = await apiCall("GET", "/actions");
+  ACTIONS = {};
+  for (const action of data.actions) {
+    for (const role of action.roles) {
+      (ACTIONS[role] = ACTIONS[role] || []).push(action);
+    }
+  }
+}
 
 // ============================================================================
 // UI RENDERING
@@ -173,41 +152,98 @@ function showToast(message, type = "success") {
   setTimeout(() => toast.remove(), 3000);
 }
 
-function renderView(data) {
-  const view = data.view;
-  currentView = view;
-
-  // Meta bar
-  $("meta-tick").textContent = view.tick;
-  $("meta-role").textContent = view.role.replace("_", " ");
-  $("meta-phase").textContent = data.phase;
-  $("meta-wealth").textContent = view.wealth.toFixed(0);
-
-  // Deadline countdown
-  updateCountdown(data.tickDeadline);
-
-  // Headlines
+function renderHeadlines(headlines) {
   const headlinesEl = $("headlines-list");
   headlinesEl.innerHTML = "";
-  for (const h of view.headlines) {
+  for (const h of headlines) {
     const div = document.createElement("div");
     div.className = "headline";
     div.innerHTML = `
       <div class="headline-text">${escapeHtml(h.text)}</div>
       <span class="headline-bias bias-${h.bias}">${h.bias}</span>
+      ${h.id ? `<span class="bill-meta">${h.id}</span>` : ""}
     `;
     headlinesEl.appendChild(div);
   }
+}
 
-  // Rumors
+function renderRumors(rumors) {
   const rumorsEl = $("rumors-list");
   rumorsEl.innerHTML = "";
-  for (const r of view.rumors) {
+  for (const r of rumors) {
     const div = document.createElement("div");
     div.className = "rumor";
-    div.textContent = r.text;
+    div.innerHTML = `${escapeHtml(r.text)}${r.id ? ` <span class="bill-meta">${r.id}</span>` : ""}`;
     rumorsEl.appendChild(div);
   }
+}
+
+function renderStatusBar(phase) {
+  $("status-phase").textContent = phase;
+  const dot = $("status-dot");
+  dot.className = `status-dot ${phase === "accepting_actions" ? "online" : "processing"}`;
+}
+
+// Eliminated players see the news and when they may come back, nothing more
+function renderGhost(data) {
+  const ghost = data.ghost;
+  currentView = null;
+
+  $("ghost-panel").classList.remove("hidden");
+  document.querySelectorAll(".live-only").forEach(el => el.classList.add("hidden"));
+
+  $("meta-tick").textContent = ghost.tick;
+  $("meta-role").textContent = `former ${ghost.role.replace("_", " ")}`;
+  $("meta-phase").textContent = data.phase;
+  $("meta-wealth").textContent = "—";
+  updateCountdown(data.tickDeadline);
+
+  const reason = (ghost.reason ?? "unknown").replace(/_/g, " ");
+  $("ghost-reason").textContent = `Eliminated at tick ${ghost.eliminated_tick}: ${reason}. The public mood is ${ghost.approval_vague}.`;
+  $("ghost-legacy").textContent = [
+    ghost.era ? `Era: ${ghost.era}` : null,
+    ghost.legacy_title ? `History remembers you as ${ghost.legacy_title}` : null,
+    ghost.rejoin_in > 0 ? `Rejoin in ${ghost.rejoin_in} ticks` : "You may rejoin now",
+  ].filter(Boolean).join(" · ");
+  $("btn-rejoin").disabled = ghost.rejoin_in > 0;
+
+  renderHeadlines(ghost.headlines);
+  renderRumors(ghost.rumors);
+  renderStatusBar(data.phase);
+}
+
+function renderView(data) {
+  if (data.ghost) {
+    renderGhost(data);
+    return;
+  }
+  const view = data.view;
+  currentView = view;
+
+  $("ghost-panel").classList.add("hidden");
+  document.querySelectorAll(".live-only").forEach(el => el.classList.remove("hidden"));
+
+  // Meta bar
+  $("meta-tick").textContent = view.tick;
+  $("meta-role").textContent = view.role.replace("_", " ");
+  $("meta-phase").textContent = data.phase;
+  $("meta-wealth").textContent = view.wealth.toFixed(0);
+
+  // Deadline countdown
+  updateCountdown(data.tickDeadline);
+
+  renderHeadlines(view.headlines);
+  renderRumors(view.rumors);
+
+  // What this player's own investigations turned up
+  $("fact-checks").innerHTML = (view.fact_checks ?? []).length
+    ? view.fact_checks.slice().reverse().map(f => `
+      <div class="bill">
+        <div class="headline-text">${escapeHtml(f.text)}</div>
+        <div class="bill-meta">${f.kind} · ${f.band} · checked tick ${f.tick} · ${f.story_id}</div>
+      </div>
+    `).join("")
+    : `<div class="election-note">You have not looked into any stories.</div>`;
 
   // Market signals
   const ms = view.market_signals;
@@ -216,12 +252,82 @@ function renderView(data) {
   $("signal-availability").textContent = ms.availability;
   $("signal-availability").className = `signal-value signal-${ms.availability === "shortage" ? "bad" : ms.availability === "scarce" ? "warn" : "good"}`;
 
+  // Firms on the market: price tag and shelf only
+  $("market-firms").textContent = (ms.firms ?? []).length
+    ? `Firms: ${ms.firms.map(f => `${f.name} (${f.id}) ${f.price}, ${f.stock}`).join(" · ")}`
+    : "";
+
   // Government signals
   const gs = view.government_signals;
   $("signal-approval").textContent = gs.approval_vague;
   $("signal-approval").className = `signal-value signal-${gs.approval_vague === "crisis" ? "bad" : gs.approval_vague === "unpopular" ? "warn" : "good"}`;
   $("signal-laws").textContent = gs.active_laws;
 
+  // Election calendar
+  const el = gs.election;
+  if (el) {
+    $("signal-election").textContent = el.phase === "campaign"
+      ? `campaign — ${el.ticks_until} ticks`
+      : el.ticks_until === null ? "unscheduled" : `in ${el.ticks_until} ticks`;
+    $("signal-election").className = `signal-value signal-${el.phase === "campaign" ? "warn" : "stable"}`;
+    $("election-candidates").textContent = el.candidates.length
+      ? `On the ballot: ${el.candidates.map(c => `${c.name} (${c.id})`).join(", ")}`
+      : el.last_winners.length
+        ? `Last election (${el.last_margin}): ${el.last_winners.join(", ")}`
+        : "";
+  }
+
+  // Bills before the legislature
+  const billsEl = $("bills-list");
+  billsEl.innerHTML = "";
+  for (const b of gs.bills ?? []) {
+    const div = document.createElement("div");
+    div.className = "bill";
+    const stage = b.status === "proposed"
+      ? "opens next tick"
+      : `${b.stage} vote — closes in ${b.closes_in} ticks`;
+    div.innerHTML = `
+      <div class="headline-text">${escapeHtml(b.excerpt)}</div>
+      <div class="bill-meta">${b.kind} · ${b.category.replace("_", " ")} · ${stage} · needs ${b.needs}${b.can_vote ? " · you can vote" : ""}</div>
+      <div class="bill-meta">${b.id}</div>
+    `;
+    billsEl.appendChild(div);
+  }
+  if (!billsEl.children.length) billsEl.innerHTML = `<div class="election-note">No bills before the legislature.</div>`;
+
+  const vr = gs.voting_rules;
+  if (vr) {
+    const pct = (x) => `${Math.round(x * 100)}%`;
+    $("voting-rules").textContent =
+      `${vr.bicameral ? "Politicians vote, then citizens ratify" : "Joint vote"} · ` +
+      `${vr.voting_window_ticks}-tick window · quorum ${pct(vr.quorum)} · majority over ${pct(vr.majority)} · ` +
+      `${pct(vr.supermajority)} for ${vr.supermajority_categories.map(c => c.replace("_", " ")).join(", ") || "nothing"}`;
+  }
+
+  // Own movement: only citizens can belong to one
+  $("movement-section").classList.toggle("hidden", view.role !== "citizen");
+  const mv = view.movement;
+  $("movement-info").innerHTML = mv
+    ? `
+      <div class="bill">
+        <div class="headline-text">${escapeHtml(mv.name)} <span class="bill-meta">${mv.type} · ${mv.members} members · ${mv.id}</span></div>
+        <div class="bill-meta">${mv.is_leader ? "You lead this movement" : mv.leader ? `Led by ${escapeHtml(mv.leader)}` : "No leader yet"} · ${mv.action_ready ? "ready to act" : "regrouping"}</div>
+      </div>
+      ${mv.demands.map(d => `<div class="rumor">${escapeHtml(d)}</div>`).join("") || `<div class="election-note">No demands raised yet.</div>`}
+    `
+    : `<div class="election-note">You are not part of a movement.</div>`;
+
+  // What came of last tick's actions
+  const report = view.last_tick_report;
+  $("tick-report").innerHTML = report && report.actions.length
+    ? report.actions.map(a => `
+      <div class="bill">
+        <div class="headline-text">${escapeHtml(a.action)} <span class="bill-meta">${a.result}</span></div>
+        <div class="bill-meta">${escapeHtml(a.note)}</div>
+      </div>
+    `).join("")
+    : `<div class="election-note">You did nothing of note last tick.</div>`;
+
   // Role-specific
   const rsEl = $("role-specific");
   rsEl.innerHTML = "";
@@ -238,10 +344,7 @@ function renderView(data) {
   // Actions
   renderActions(view.role);
 
-  // Status bar
-  $("status-phase").textContent = data.phase;
-  const dot = $("status-dot");
-  dot.className = `status-dot ${data.phase === "accepting_actions" ? "online" : "processing"}`;
+  renderStatusBar(data.phase);
 }
 
 function renderActions(role) {
@@ -253,6 +356,7 @@ function renderActions(role) {
     const btn = document.createElement("button");
     btn.className = "action-btn";
     btn.textContent = action.label;
+    btn.title = describeActionTerms(action, role);
     btn.onclick = () => selectAction(action);
     grid.appendChild(btn);
   }
@@ -260,6 +364,16 @@ function renderActions(role) {
   $("action-params").classList.add("hidden");
 }
 
+function describeActionTerms(action, role) {
+  const terms = [];
+  const cost = action.costByRole?.[role] ?? action.cost;
+  if (cost?.wealth) terms.push(`costs ${cost.wealth} wealth`);
+  if (cost?.influence) terms.push("costs some influence");
+  if (action.cooldown) terms.push(action.cooldown === 1 ? "once per tick" : `once every ${action.cooldown} ticks`);
+  if (action.requires?.length) terms.push(`requires: ${action.requires.join(", ").replace(/_/g, " ")}`);
+  return terms.join(" · ");
+}
+
 function selectAction(action) {
   selectedAction = action;
 
@@ -324,12 +438,7 @@ function selectAction(action) {
       params[param.name] = val;
     }
 
-    // Special case: allocate_budget sends nested allocation
-    if (action.type === "allocate_budget") {
-      doSubmitAction(action.type, { allocation: params });
-    } else {
-      doSubmitAction(action.type, params);
-    }
+    doSubmitAction(action.type, params);
   };
   paramsEl.appendChild(submitBtn);
 }
@@ -430,6 +539,18 @@ function initSetup() {
     }
   };
 
+  $("btn-rejoin").onclick = async () => {
+    try {
+      $("btn-rejoin").disabled = true;
+      await rejoinServer($("ghost-role").value);
+      showToast("Back in the game!");
+      renderView(await getPlayerView());
+    } catch (err) {
+      showToast(err.message, "error");
+      $("btn-rejoin").disabled = false;
+    }
+  };
+
   $("btn-disconnect").onclick = () => {
     stopPolling();
     clearSession();
@@ -441,6 +562,12 @@ async function enterGame() {
   showScreen("game");
   $("player-name-display").textContent = session.playerName;
 
+  try {
+    await loadActions();
+  } catch (err) {
+    showToast("Failed to load actions: " + err.message, "error");
+  }
+
   try {
     const data = await getPlayerView();
     renderView(data);
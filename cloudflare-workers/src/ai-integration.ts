@@ -11,6 +11,8 @@ import {
   parseAIResponse,
   REQUIRED_FIELDS,
 } from "../../shared/ai-contracts";
+import { MIN_EXPOSABLE_CORRUPTION } from "../../shared/core-engine";
+import { buildMockAIRegistry } from "./mock-ai";
 
 // ============================================================================
 // BASE API CALLER
@@ -343,6 +345,8 @@ export function buildAIRegistry(apiKey: string) {
     media: async (input: {
       analyst: any;
       judiciary: any[];
+      leaks: any[];
+      fact_checks: any[];
       state: any;
     }) => {
       // Build Media AI input from contract spec
@@ -386,6 +390,8 @@ export function buildAIRegistry(apiKey: string) {
         })),
         political_statements: politicalStatements,
         active_events: activeEvents,
+        leaks: input.leaks ?? [],
+        fact_checks: input.fact_checks ?? [],
         state_summary: {
           gdp_trend: gdpTrend,
           inflation: input.state.economy.inflation,
@@ -455,6 +461,12 @@ export function buildAIRegistry(apiKey: string) {
           name: m.name,
           type: m.type,
           strength: m.strength,
+          demands: m.demands,
+          members: m.member_player_ids.length,
+          has_leader: !!m.leader_id,
+          last_action: m.last_action
+            ? { kind: m.last_action.kind, ticks_ago: input.state.meta.tick - m.last_action.tick }
+            : null,
         })),
         protest_pressure: input.state.society.protest_pressure,
         recent_events: input.state.events
@@ -527,6 +539,25 @@ export function buildAIRegistry(apiKey: string) {
         },
         suppressed_warnings: input.political?.suppressed_warnings ?? [],
         player_behavior_patterns: null,
+        // Names only, most compromised first; the engine ignores anyone cleaner
+        corruption_suspects: (Object.values(input.state.players) as any[])
+          .filter(p => p.alive && p.hidden_stats?.corruption >= MIN_EXPOSABLE_CORRUPTION)
+          .sort((a, b) => b.hidden_stats.corruption - a.hidden_stats.corruption)
+          .slice(0, 5)
+          .map(p => ({ player_id: p.id, player_name: p.name, role: p.role })),
+        // Who sells the country's goods, biggest first
+        market_structure: {
+          concentration: input.state.economy.market.concentration ?? 0,
+          firms: (Object.values(input.state.players) as any[])
+            .filter(p => p.alive && p.role === "business_owner")
+            .map(p => ({
+              player_id: p.id,
+              player_name: p.name,
+              market_share: p.role_data.business_owner?.market_share ?? 0,
+              price: p.role_data.business_owner?.price ?? 1,
+            }))
+            .sort((a, b) => b.market_share - a.market_share),
+        },
       };
 
       return callCrisis(crisisInput, apiKey);
@@ -538,9 +569,9 @@ export function buildAIRegistry(apiKey: string) {
       for (const [id, player] of Object.entries(input.state.players) as any[]) {
         const lastHistory = player.actions_history?.[player.actions_history.length - 1];
         if (lastHistory && lastHistory.tick === input.state.meta.tick) {
-          activePlayerActions[id] = lastHistory.actions.map(
-            (a: any) => a.action_type
-          );
+          activePlayerActions[id] = lastHistory.actions
+            .filter((a: any) => !a.rejected)
+            .map((a: any) => a.action_type);
         }
       }
 
@@ -558,3 +589,13 @@ export function buildAIRegistry(apiKey: string) {
     },
   };
 }
+
+// ============================================================================
+// REGISTRY SELECTION
+// ============================================================================
+// AI_MODE = "mock" swaps all six systems for the offline stand-ins in mock-ai.ts.
+// Anything else uses Claude.
+
+export function selectAIRegistry(mode: string | undefined, apiKey: string) {
+  return mode === "mock" ? buildMockAIRegistry() : buildAIRegistry(apiKey);
+}
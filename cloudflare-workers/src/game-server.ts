@@ -6,8 +6,22 @@
 // Uses Durable Object Alarms for automatic tick scheduling.
 // ============================================================================
 
-import { processTick, generatePlayerView } from "../../shared/core-engine";
-import { buildAIRegistry } from "./ai-integration";
+import {
+  processTick,
+  generatePlayerView,
+  generateGhostView,
+  generateLawView,
+  generateLawList,
+  generateMovementList,
+  generateNewsArchive,
+  computeFinalScores,
+  normalizeVotingRules,
+  ticksUntilRejoin,
+  findAction,
+  checkAction,
+} from "../../shared/core-engine";
+import { validateActionParams } from "../../shared/action-schema";
+import { selectAIRegistry } from "./ai-integration";
 import { Env } from "./types";
 
 // ============================================================================
@@ -17,7 +31,8 @@ import { Env } from "./types";
 
 function createInitialState(
   serverId: string,
-  tickIntervalHours: number
+  tickIntervalHours: number,
+  votingRules?: any
 ): any {
   const now = new Date();
   const deadline = new Date(
@@ -33,12 +48,14 @@ function createInitialState(
       created_at: now.toISOString(),
       phase: "accepting_actions",
       seed: 42,
+      trigger_cooldowns: {},
     },
     economy: {
       gdp: 1000.0,
       gdp_delta: 0,
       inflation: 2.0,
       unemployment: 5.0,
+      npc_unemployment: 5.0,
       tax_rate: 20.0,
       tax_compliance: 0.8,
       budget: {
@@ -46,12 +63,15 @@ function createInitialState(
         spending: 150.0,
         reserves: 500.0,
         deficit: -10.0,
+        player_taxes: 0,
+        welfare_transfers: 0,
       },
       market: {
         supply: 100.0,
         demand: 95.0,
         price_index: 1.0,
         shortage: false,
+        concentration: 0,
       },
       wage_index: 1.0,
     },
@@ -79,6 +99,9 @@ function createInitialState(
       },
       active_law_count: 0,
       election_tick: null,
+      campaign: null,
+      last_election: null,
+      voting_rules: normalizeVotingRules(votingRules),
     },
     players: {},
     laws: [],
@@ -118,8 +141,12 @@ function createInitialState(
           tick: 0,
           text: "Sources suggest budget reserves may be lower than officially reported",
           credibility: 0.5,
+          truth_score: 0.3,
         },
       ],
+      archive: [],
+      rumor_archive: [],
+      fact_checks: [],
     },
     history: {
       eras: [
@@ -168,6 +195,11 @@ function getDefaultRoleData(role: string): any {
           economic_pressure: 30.0,
           radicalization: 5.0,
           voted_this_tick: false,
+          job_application: null,
+          hardship_ticks: 0,
+          taxable_income: 0,
+          tax_paid: 0,
+          welfare_received: 0,
         },
       };
     case "business_owner":
@@ -180,6 +212,14 @@ function getDefaultRoleData(role: string): any {
           lobby_target: null,
           strike_risk: 0.1,
           lobby_money_received: 0,
+          job_openings: 0,
+          inventory: 0,
+          price: 1.0,
+          units_sold: 0,
+          last_sales: 0,
+          market_share: 0,
+          taxable_income: 0,
+          tax_paid: 0,
         },
       };
     case "politician":
@@ -190,6 +230,8 @@ function getDefaultRoleData(role: string): any {
           laws_passed: 0,
           public_statements: [],
           lobby_money_received: 0,
+          in_office: true,
+          defeats: 0,
         },
       };
     default:
@@ -285,7 +327,7 @@ export class GameServer implements DurableObject {
   private async runTick(): Promise<void> {
     if (!this.worldState) return;
 
-    const aiRegistry = buildAIRegistry(this.claudeApiKey);
+    const aiRegistry = selectAIRegistry(this.env.AI_MODE, this.claudeApiKey);
     const result = await processTick(this.worldState, aiRegistry);
     this.worldState = result.state;
 
@@ -311,17 +353,31 @@ export class GameServer implements DurableObject {
     const path = url.pathname;
 
     try {
+      if (path.startsWith("/laws/")) {
+        return this.handleLawDetail(request, decodeURIComponent(path.slice("/laws/".length)));
+      }
+
       switch (path) {
         case "/initialize":
           return this.handleInitialize(request);
         case "/join":
           return this.handleJoin(request);
+        case "/rejoin":
+          return this.handleRejoin(request);
         case "/view":
           return this.handleView(request);
+        case "/laws":
+          return this.handleLaws(request);
+        case "/movements":
+          return this.handleMovements(request);
+        case "/news":
+          return this.handleNews(request);
         case "/action":
           return this.handleAction(request);
         case "/status":
           return this.handleStatus();
+        case "/scores":
+          return this.handleScores();
         default:
           return jsonRes({ error: "Unknown DO route" }, 404);
       }
@@ -341,7 +397,7 @@ export class GameServer implements DurableObject {
     }
 
     const body = (await request.json()) as any;
-    const { playerName, playerRole, tickIntervalHours, maxPlayers, claudeApiKey } =
+    const { playerName, playerRole, tickIntervalHours, maxPlayers, claudeApiKey, votingRules } =
       body;
 
     // Store config
@@ -352,7 +408,7 @@ export class GameServer implements DurableObject {
 
     // Create initial world state
     const serverId = this.state.id.toString();
-    this.worldState = createInitialState(serverId, tickIntervalHours);
+    this.worldState = createInitialState(serverId, tickIntervalHours, votingRules);
     this.initialized = true;
 
     // Add the creating player
@@ -417,6 +473,65 @@ export class GameServer implements DurableObject {
     });
   }
 
+  // ---- POST /rejoin ----
+  private async handleRejoin(request: Request): Promise<Response> {
+    if (!this.worldState) {
+      return jsonRes({ error: "Server not initialized" }, 400);
+    }
+
+    const body = (await request.json()) as any;
+    const { playerId, playerToken, playerRole, playerName } = body;
+
+    if (!playerId || !playerToken || !playerRole) {
+      return jsonRes({ error: "Missing playerId, playerToken, or playerRole" }, 400);
+    }
+    if (!["citizen", "business_owner", "politician"].includes(playerRole)) {
+      return jsonRes({ error: "Invalid role" }, 400);
+    }
+    if (!this.validateToken(playerId, playerToken)) {
+      return jsonRes({ error: "Invalid token" }, 401);
+    }
+
+    const player = this.worldState.players[playerId];
+    if (!player) {
+      return jsonRes({ error: "Player not found" }, 404);
+    }
+    if (player.alive) {
+      return jsonRes({ error: "Player is still in the game" }, 400);
+    }
+
+    const wait = ticksUntilRejoin(this.worldState, player);
+    if (wait > 0) {
+      return jsonRes({ error: `Rejoin allowed in ${wait} ticks`, rejoinIn: wait }, 403);
+    }
+
+    if (this.worldState.meta.phase !== "accepting_actions") {
+      return jsonRes(
+        { error: "Server is processing a tick. Try again shortly." },
+        409
+      );
+    }
+
+    // Same id and token; history's verdict follows them into the new life
+    const { reputation, historical_legacy } = player.hidden_stats;
+    this.addPlayerToState(playerId, playerName || player.name, playerRole);
+    const reborn = this.worldState.players[playerId];
+    reborn.hidden_stats.reputation = reputation;
+    reborn.hidden_stats.historical_legacy = historical_legacy;
+    reborn.actions_history = player.actions_history;
+    // Returning politicians must win a seat at the next election
+    if (playerRole === "politician") reborn.role_data.politician.in_office = false;
+
+    await this.saveState();
+
+    return jsonRes({
+      playerId,
+      role: playerRole,
+      tick: this.worldState.meta.tick,
+      tickDeadline: this.worldState.meta.tick_deadline,
+    });
+  }
+
   // ---- GET /view ----
   private async handleView(request: Request): Promise<Response> {
     if (!this.worldState) {
@@ -443,7 +558,17 @@ export class GameServer implements DurableObject {
     );
 
     if (!view) {
-      return jsonRes({ error: "Player not found or not alive" }, 404);
+      // Eliminated players watch as ghosts until they rejoin
+      const ghost = generateGhostView(this.worldState, playerId, noiseSeed);
+      if (!ghost) {
+        return jsonRes({ error: "Player not found" }, 404);
+      }
+      return jsonRes({
+        ghost,
+        tick: this.worldState.meta.tick,
+        phase: this.worldState.meta.phase,
+        tickDeadline: this.worldState.meta.tick_deadline,
+      });
     }
 
     return jsonRes({
@@ -454,6 +579,119 @@ export class GameServer implements DurableObject {
     });
   }
 
+  // ---- GET /laws ----
+  private async handleLaws(request: Request): Promise<Response> {
+    if (!this.worldState) {
+      return jsonRes({ error: "Server not initialized" }, 400);
+    }
+
+    const url = new URL(request.url);
+    const playerId = url.searchParams.get("playerId");
+    const token = url.searchParams.get("token");
+    const status = url.searchParams.get("status") ?? undefined;
+
+    if (!playerId || !token) {
+      return jsonRes({ error: "Missing playerId or token" }, 400);
+    }
+    if (!this.validateToken(playerId, token)) {
+      return jsonRes({ error: "Invalid token" }, 401);
+    }
+
+    const noiseSeed =
+      this.worldState.meta.seed * 1000 + this.worldState.meta.tick;
+    return jsonRes({
+      laws: generateLawList(this.worldState, playerId, noiseSeed, status),
+      voting_rules: this.worldState.government.voting_rules,
+      tick: this.worldState.meta.tick,
+    });
+  }
+
+  // ---- GET /laws/:lawId ----
+  private async handleLawDetail(request: Request, lawId: string): Promise<Response> {
+    if (!this.worldState) {
+      return jsonRes({ error: "Server not initialized" }, 400);
+    }
+
+    const url = new URL(request.url);
+    const playerId = url.searchParams.get("playerId");
+    const token = url.searchParams.get("token");
+
+    if (!playerId || !token) {
+      return jsonRes({ error: "Missing playerId or token" }, 400);
+    }
+    if (!this.validateToken(playerId, token)) {
+      return jsonRes({ error: "Invalid token" }, 401);
+    }
+
+    const law = this.worldState.laws.find((l: any) => l.id === lawId);
+    if (!law) {
+      return jsonRes({ error: "Law not found" }, 404);
+    }
+
+    const noiseSeed =
+      this.worldState.meta.seed * 1000 + this.worldState.meta.tick;
+    // Repeals and amendments filed against this law
+    const bills = this.worldState.laws
+      .filter((l: any) => l.target_law_id === law.id)
+      .map((l: any) => generateLawView(this.worldState, l, playerId, noiseSeed));
+
+    return jsonRes({
+      law: generateLawView(this.worldState, law, playerId, noiseSeed),
+      bills,
+      tick: this.worldState.meta.tick,
+    });
+  }
+
+  // ---- GET /movements ----
+  private async handleMovements(request: Request): Promise<Response> {
+    if (!this.worldState) {
+      return jsonRes({ error: "Server not initialized" }, 400);
+    }
+
+    const url = new URL(request.url);
+    const playerId = url.searchParams.get("playerId");
+    const token = url.searchParams.get("token");
+
+    if (!playerId || !token) {
+      return jsonRes({ error: "Missing playerId or token" }, 400);
+    }
+    if (!this.validateToken(playerId, token)) {
+      return jsonRes({ error: "Invalid token" }, 401);
+    }
+
+    const noiseSeed =
+      this.worldState.meta.seed * 1000 + this.worldState.meta.tick;
+    return jsonRes({
+      movements: generateMovementList(this.worldState, playerId, noiseSeed),
+      tick: this.worldState.meta.tick,
+    });
+  }
+
+  // ---- GET /news ----
+  // The archive is public record, so no token is needed
+  private async handleNews(request: Request): Promise<Response> {
+    if (!this.worldState) {
+      return jsonRes({ error: "Server not initialized" }, 400);
+    }
+
+    // No token: the archive is the public record of what was printed, the same for
+    // everyone. Perception decides which stories reach a player as they break, not
+    // what the papers said.
+    const url = new URL(request.url);
+    const fromTick = Number(url.searchParams.get("fromTick") ?? 0);
+    const offset = Number(url.searchParams.get("offset") ?? 0);
+    const limitParam = url.searchParams.get("limit");
+    const limit = limitParam === null ? undefined : Number(limitParam);
+    if (![fromTick, offset, limit ?? 0].every(Number.isFinite)) {
+      return jsonRes({ error: "fromTick, offset and limit must be numbers" }, 400);
+    }
+
+    return jsonRes({
+      ...generateNewsArchive(this.worldState, fromTick, offset, limit),
+      tick: this.worldState.meta.tick,
+    });
+  }
+
   // ---- POST /action ----
   private async handleAction(request: Request): Promise<Response> {
     if (!this.worldState) {
@@ -485,26 +723,9 @@ export class GameServer implements DurableObject {
       return jsonRes({ error: "Player not found or not alive" }, 404);
     }
 
-    // Validate action_type exists
-    const validActions: Record<string, string[]> = {
-      citizen: ["work", "consume", "vote_law", "join_movement", "leave_movement"],
-      business_owner: [
-        "produce",
-        "set_wages",
-        "lobby",
-        "evade_taxes",
-        "comply_taxes",
-      ],
-      politician: [
-        "propose_law",
-        "vote_law_politician",
-        "allocate_budget",
-        "publish_statement",
-      ],
-    };
-
-    const allowed = validActions[player.role] ?? [];
-    if (!allowed.includes(action.action_type)) {
+    // Validate action_type exists for this role, then its params
+    const def = findAction(action.action_type, player.role);
+    if (!def) {
       return jsonRes(
         {
           error: `Action '${action.action_type}' not valid for role '${player.role}'`,
@@ -513,6 +734,32 @@ export class GameServer implements DurableObject {
       );
     }
 
+    const checked = validateActionParams(def, action.params);
+    if (!checked.ok) {
+      return jsonRes(
+        {
+          error: `Invalid params for '${def.type}'`,
+          fields: checked.errors,
+        },
+        400
+      );
+    }
+
+    // Costs, cooldowns and prerequisites; the tick checks them again before running it
+    if (def.cooldown && player.actions_pending.some((a: any) => a.action_type === def.type)) {
+      return jsonRes(
+        { error: `'${def.type}' is already queued this tick` },
+        409
+      );
+    }
+    const refusal = checkAction(this.worldState, player, def, checked.params);
+    if (refusal) {
+      return jsonRes(
+        { error: `Cannot ${def.label.toLowerCase()}: ${refusal}` },
+        409
+      );
+    }
+
     // Rate limit: max 5 pending actions per player per tick
     if (player.actions_pending.length >= 5) {
       return jsonRes(
@@ -525,7 +772,7 @@ export class GameServer implements DurableObject {
     player.actions_pending.push({
       action_type: action.action_type,
       submitted_at: new Date().toISOString(),
-      params: action.params ?? {},
+      params: checked.params,
     });
 
     await this.saveState();
@@ -537,6 +784,19 @@ export class GameServer implements DurableObject {
     });
   }
 
+  // ---- GET /scores (admin, checked by the Worker) ----
+  private handleScores(): Response {
+    if (!this.worldState) {
+      return jsonRes({ error: "Server not initialized" }, 400);
+    }
+
+    // Built from hidden stats, so never served to players
+    return jsonRes({
+      tick: this.worldState.meta.tick,
+      scores: computeFinalScores(this.worldState),
+    });
+  }
+
   // ---- GET /status ----
   private handleStatus(): Response {
     if (!this.worldState) {
@@ -602,6 +862,8 @@ export class GameServer implements DurableObject {
       role_data: getDefaultRoleData(role),
       actions_pending: [],
       actions_history: [],
+      last_taken: {},
+      fact_checks: [],
     };
   }
 }
@@ -6,6 +6,7 @@
 // ============================================================================
 
 import { GameServer } from "./game-server";
+import { listActions } from "../../shared/core-engine";
 import { Env } from "./types";
 
 export { GameServer };
@@ -103,6 +104,16 @@ export default {
         });
       }
 
+      // ---- Action discovery ----
+      // GET /actions?role=...  (role optional)
+      if (method === "GET" && pathname === "/actions") {
+        const role = url.searchParams.get("role");
+        if (role !== null && role !== "citizen" && role !== "business_owner" && role !== "politician") {
+          return errorResponse("Invalid role. Must be: citizen, business_owner, politician");
+        }
+        return jsonResponse({ actions: listActions(role ?? undefined) });
+      }
+
       // ---- Create server ----
       // POST /server/create
       if (method === "POST" && pathname === "/server/create") {
@@ -130,6 +141,7 @@ export default {
             tickIntervalHours: parseInt(env.TICK_INTERVAL_HOURS),
             maxPlayers: parseInt(env.MAX_PLAYERS_PER_SERVER),
             claudeApiKey: env.CLAUDE_API_KEY,
+            votingRules: body.votingRules,
           }),
         });
 
@@ -164,6 +176,22 @@ export default {
         return jsonResponse(result, doResponse.status);
       }
 
+      // POST /server/:id/rejoin
+      const rejoinMatch = matchRoute(pathname, "/server/:id/rejoin");
+      if (method === "POST" && rejoinMatch) {
+        const body = await request.json() as any;
+        const stub = getServerStub(env, rejoinMatch.params.id);
+
+        const doRequest = new Request("http://internal/rejoin", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        const doResponse = await stub.fetch(doRequest);
+        const result = await doResponse.json();
+        return jsonResponse(result, doResponse.status);
+      }
+
       // GET /server/:id/view?playerId=...&token=...
       const viewMatch = matchRoute(pathname, "/server/:id/view");
       if (method === "GET" && viewMatch) {
@@ -183,6 +211,71 @@ export default {
         return jsonResponse(result, doResponse.status);
       }
 
+      // GET /server/:id/laws?playerId=...&token=...&status=...
+      const lawsMatch = matchRoute(pathname, "/server/:id/laws");
+      if (method === "GET" && lawsMatch) {
+        const playerId = url.searchParams.get("playerId");
+        const token = url.searchParams.get("token");
+
+        if (!playerId || !token) {
+          return errorResponse("Missing playerId or token query params");
+        }
+
+        const stub = getServerStub(env, lawsMatch.params.id);
+        const doUrl = new URL("http://internal/laws");
+        doUrl.search = url.search;
+        const doResponse = await stub.fetch(new Request(doUrl.toString()));
+        const result = await doResponse.json();
+        return jsonResponse(result, doResponse.status);
+      }
+
+      // GET /server/:id/laws/:lawId?playerId=...&token=...
+      const lawMatch = matchRoute(pathname, "/server/:id/laws/:lawId");
+      if (method === "GET" && lawMatch) {
+        const playerId = url.searchParams.get("playerId");
+        const token = url.searchParams.get("token");
+
+        if (!playerId || !token) {
+          return errorResponse("Missing playerId or token query params");
+        }
+
+        const stub = getServerStub(env, lawMatch.params.id);
+        const doUrl = new URL(`http://internal/laws/${encodeURIComponent(lawMatch.params.lawId)}`);
+        doUrl.search = url.search;
+        const doResponse = await stub.fetch(new Request(doUrl.toString()));
+        const result = await doResponse.json();
+        return jsonResponse(result, doResponse.status);
+      }
+
+      // GET /server/:id/movements?playerId=...&token=...
+      const movementsMatch = matchRoute(pathname, "/server/:id/movements");
+      if (method === "GET" && movementsMatch) {
+        const playerId = url.searchParams.get("playerId");
+        const token = url.searchParams.get("token");
+
+        if (!playerId || !token) {
+          return errorResponse("Missing playerId or token query params");
+        }
+
+        const stub = getServerStub(env, movementsMatch.params.id);
+        const doUrl = new URL("http://internal/movements");
+        doUrl.search = url.search;
+        const doResponse = await stub.fetch(new Request(doUrl.toString()));
+        const result = await doResponse.json();
+        return jsonResponse(result, doResponse.status);
+      }
+
+      // GET /server/:id/news?fromTick=...&offset=...&limit=...
+      const newsMatch = matchRoute(pathname, "/server/:id/news");
+      if (method === "GET" && newsMatch) {
+        const stub = getServerStub(env, newsMatch.params.id);
+        const doUrl = new URL("http://internal/news");
+        doUrl.search = url.search;
+        const doResponse = await stub.fetch(new Request(doUrl.toString()));
+        const result = await doResponse.json();
+        return jsonResponse(result, doResponse.status);
+      }
+
       // POST /server/:id/action
       const actionMatch = matchRoute(pathname, "/server/:id/action");
       if (method === "POST" && actionMatch) {
@@ -209,6 +302,18 @@ export default {
         return jsonResponse(result, doResponse.status);
       }
 
+      // GET /server/:id/scores  (operator only: Authorization: Bearer <ADMIN_TOKEN>)
+      const scoresMatch = matchRoute(pathname, "/server/:id/scores");
+      if (method === "GET" && scoresMatch) {
+        if (!isAdmin(request, env)) {
+          return errorResponse("Forbidden", 403);
+        }
+        const stub = getServerStub(env, scoresMatch.params.id);
+        const doResponse = await stub.fetch(new Request("http://internal/scores"));
+        const result = await doResponse.json();
+        return jsonResponse(result, doResponse.status);
+      }
+
       return errorResponse("Not found", 404);
 
     } catch (err) {
@@ -225,6 +330,11 @@ export default {
 // HELPERS
 // ============================================================================
 
+/** Admin routes stay shut unless the ADMIN_TOKEN secret is set */
+function isAdmin(request: Request, env: Env): boolean {
+  return !!env.ADMIN_TOKEN && request.headers.get("Authorization") === `Bearer ${env.ADMIN_TOKEN}`;
+}
+
 function getServerStub(env: Env, idString: string): DurableObjectStub {
   const id = env.GAME_SERVER.idFromString(idString);
   return env.GAME_SERVER.get(id);
@@ -0,0 +1,445 @@
+// ============================================================================
+// They Voted For This — Mock AI Registry
+// ============================================================================
+// Rule-based stand-ins for all six AI systems. No network, no API key.
+// Selected with AI_MODE = "mock" so full games run offline under wrangler dev.
+//
+// Every stand-in reads the same inputs as its Claude counterpart and returns
+// the output structure from its AI_CONTRACTS prompt. Randomness comes from the
+// world seed, so the same state always produces the same outputs.
+// ============================================================================
+
+import { REQUIRED_FIELDS } from "../../shared/ai-contracts";
+import { seededRandom, MIN_EXPOSABLE_CORRUPTION } from "../../shared/core-engine";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Seed offsets for mock draws, clear of the engine's own (3000-9500)
+const MOCK_SEED_OFFSET: Record<string, number> = {
+  state_analyst: 10000,
+  judiciary: 11000,
+  media: 12000,
+  political_reaction: 13000,
+  crisis: 14000,
+  historian: 15000,
+};
+
+/** Seeded roll in [0, 1) scoped to one AI system */
+function roll(state: any, system: string, index: number): number {
+  return seededRandom(state.meta.seed, MOCK_SEED_OFFSET[system] + index);
+}
+
+function pick<T>(items: T[], r: number): T {
+  return items[Math.floor(r * items.length) % items.length];
+}
+
+function round(value: number, places = 2): number {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/** Stand-ins must honour the same contract the parser enforces on Claude */
+function conform<T>(system: string, output: T): T {
+  for (const field of REQUIRED_FIELDS[system] ?? []) {
+    if (!(field in (output as any))) {
+      throw new Error(`[Mock ${system}] Missing required field: ${field}`);
+    }
+  }
+  return output;
+}
+
+// ============================================================================
+// STATE ANALYST — honest trends, threshold risks, linear projections
+// ============================================================================
+
+function mockStateAnalyst(input: { state: any; actions: any[] }) {
+  const { economy, society } = input.state;
+  const trends: any[] = [];
+
+  const trend = (variable: string, delta: number, scale: number, note: string) => {
+    const direction = delta > scale * 0.05 ? "up" : delta < -scale * 0.05 ? "down" : "stable";
+    trends.push({ variable, direction, magnitude: round(clamp(Math.abs(delta) / scale, 0, 1)), note });
+  };
+  trend("economy.gdp", economy.gdp_delta, 50, "GDP moved with production and consumption");
+  trend("economy.inflation", economy.inflation - 2, 20, "Inflation measured against a 2% baseline");
+  trend("economy.unemployment", economy.unemployment - 5, 20, "Unemployment measured against a 5% baseline");
+  trend("society.stability", society.stability - 70, 50, "Stability measured against its starting level");
+
+  const risks: any[] = [];
+  const risk = (type: string, severity: number, probability: number, trigger_variable: string, threshold: string) =>
+    risks.push({ type, severity, probability: round(clamp(probability, 0, 1)), trigger_variable, threshold });
+
+  if (economy.inflation > 10) risk("hyperinflation", economy.inflation > 50 ? 4 : 2, economy.inflation / 100, "economy.inflation", "> 50");
+  if (economy.unemployment > 15) risk("unemployment_spike", 3, economy.unemployment / 40, "economy.unemployment", "> 40");
+  if (economy.gdp_delta < -20) risk("economic_crisis", 3, 0.4, "economy.gdp", "-20% in one tick");
+  if (economy.budget.reserves < 0) risk("budget_collapse", 3, 0.5, "economy.budget.reserves", "< -500");
+  if (economy.market.shortage) risk("market_shortage", 2, 0.6, "economy.market.supply", "< demand");
+  if (society.stability < 40) risk("social_unrest", 3, (40 - society.stability) / 40, "society.stability", "< 20");
+  if (society.radicalization > 60) risk("revolution", 5, (society.radicalization - 60) / 40, "society.radicalization", "> 80");
+
+  const noise = roll(input.state, "state_analyst", 0);
+  return conform("state_analyst", {
+    trends,
+    risks,
+    projections: {
+      gdp_3tick: round(Math.max(0, economy.gdp + economy.gdp_delta * 3)),
+      inflation_3tick: round(economy.inflation),
+      unemployment_3tick: round(economy.unemployment),
+      stability_3tick: round(society.stability),
+    },
+    confidence: round(0.5 + noise * 0.3),
+  });
+}
+
+// ============================================================================
+// JUDICIARY — keyword rules, always at least one ambiguity
+// ============================================================================
+
+interface JudiciaryRule {
+  pattern: RegExp;
+  interpretation: string;
+  modifiers: (r: number, text: string) => any[];
+}
+
+const JUDICIARY_RULES: JudiciaryRule[] = [
+  {
+    pattern: /\btax/i,
+    interpretation: "The tax code is adjusted, applied to declared income only.",
+    modifiers: (r, text) => {
+      const cut = /\b(cut|lower|reduce|abolish)/i.test(text);
+      return [{ variable: "economy.tax_rate", operation: "add", value: round((cut ? -1 : 1) * (2 + r * 3)), mode: "target" }];
+    },
+  },
+  {
+    pattern: /\b(welfare|benefit|pension|subsid)/i,
+    interpretation: "Public spending rises, disbursed through existing channels.",
+    modifiers: r => [
+      { variable: "economy.budget.spending", operation: "add", value: round(10 + r * 20), mode: "target" },
+      { variable: "society.satisfaction", operation: "add", value: round(1 + r * 2), mode: "once" },
+    ],
+  },
+  {
+    pattern: /\b(police|order|enforce|curfew|ban)/i,
+    interpretation: "Enforcement powers expand; their limits are left to the enforcers.",
+    modifiers: r => [
+      { variable: "society.stability", operation: "add", value: round(2 + r * 3), mode: "target" },
+      { variable: "society.public_trust", operation: "add", value: round(-(0.2 + r * 0.5)), mode: "per_tick" },
+    ],
+  },
+  {
+    pattern: /\b(wage|salar|minimum)/i,
+    interpretation: "Wage floors apply to new contracts; existing ones are grandfathered.",
+    modifiers: r => [{ variable: "economy.wage_index", operation: "multiply", value: round(1.02 + r * 0.05, 3), mode: "target" }],
+  },
+  {
+    pattern: /\b(price|cap|inflation)/i,
+    interpretation: "Prices are capped at the regulator's discretion.",
+    modifiers: r => [{ variable: "economy.market.price_index", operation: "clamp", value: 0, min: 0.5, max: round(1.1 + r * 0.3), mode: "target" }],
+  },
+];
+
+const AMBIGUITIES = [
+  "The law does not define who is responsible for enforcement.",
+  "No end date is specified, so the measure applies indefinitely.",
+  "Key terms are undefined and will be read in the narrowest sense.",
+  "The law is silent on exemptions, so existing arrangements continue.",
+  "Funding for the measure is not identified.",
+];
+
+function mockJudiciary(input: { law: any; state: any }) {
+  const text: string = input.law.original_text ?? "";
+  const r = roll(input.state, "judiciary", input.state.laws.indexOf(input.law) + 1);
+  const rule = JUDICIARY_RULES.find(x => x.pattern.test(text));
+
+  const modifiers = rule
+    ? rule.modifiers(r, text)
+    : [{ variable: "society.public_trust", operation: "add", value: round(r < 0.5 ? -1 : 1), mode: "once" }];
+
+  return conform("judiciary", {
+    law_id: input.law.id,
+    interpretation: rule?.interpretation ?? "The law is read as a statement of intent with minimal effect.",
+    ambiguities: [pick(AMBIGUITIES, r)],
+    implementation: {
+      affected_variables: modifiers.map(m => m.variable),
+      modifiers,
+    },
+    conflicts_with: [],
+    severity_assessment: 1 + Math.floor(r * 3),
+  });
+}
+
+// ============================================================================
+// MEDIA — slanted headlines from real facts, some distorted
+// ============================================================================
+
+const BIASES = ["left", "right", "populist", "establishment", "neutral"];
+
+function mockMedia(input: { analyst: any; judiciary: any[]; leaks: any[]; fact_checks: any[]; state: any }) {
+  const { state } = input;
+  const { economy, society } = state;
+  const headlines: any[] = [];
+  const articles: any[] = [];
+  let i = 0;
+
+  const report = (fact: string, spin: string, sourceEventId: string | null = null) => {
+    const r = roll(state, "media", i);
+    const distorted = r < 0.3;
+    headlines.push({
+      text: (distorted ? spin : fact).slice(0, 120),
+      bias: pick(BIASES, roll(state, "media", 100 + i)),
+      truth_score: round(distorted ? 0.2 + r : 0.7 + r * 0.3),
+      source_event_id: sourceEventId,
+    });
+    articles.push({
+      headline_index: headlines.length - 1,
+      body: `${fact} Officials declined to comment further.`.slice(0, 500),
+      bias: headlines[headlines.length - 1].bias,
+      mentions_players: [],
+    });
+    i++;
+  };
+
+  // Leaks lead the news, every one of them
+  for (const leak of input.leaks ?? []) {
+    report(`Investigation: ${leak.description}`, `${leak.player_names.join(", ")} at centre of cover-up, sources claim`, leak.event_id);
+    articles[articles.length - 1].mentions_players = leak.player_ids;
+  }
+
+  const direction = economy.gdp_delta > 5 ? "grows" : economy.gdp_delta < -5 ? "shrinks" : "holds steady";
+  report(`Economy ${direction} as output reaches ${Math.round(economy.gdp)}`, "Experts warn the numbers are being massaged");
+
+  if (economy.inflation > 5) report(`Prices climb: inflation at ${economy.inflation.toFixed(1)}%`, "Shoppers panic as prices spiral out of control");
+  if (economy.unemployment > 10) report(`Joblessness rises to ${economy.unemployment.toFixed(1)}%`, "Entire towns left without work");
+  if (society.stability < 40) report("Unrest spreads as confidence in order falls", "Country on the brink, insiders say");
+
+  for (const j of input.judiciary.slice(0, 2)) {
+    report(`Courts rule on new law: ${j.interpretation}`, "New law hides a power grab, critics claim");
+  }
+
+  for (const event of state.events.filter((e: any) => e.status === "applied" && e.tick === state.meta.tick).slice(0, 2)) {
+    report(`${event.description}`, `${event.type.replace(/_/g, " ")} was worse than reported`, event.id);
+  }
+
+  // The first public call on record gets a story of its own
+  const call = (input.fact_checks ?? [])[0];
+  if (call) {
+    const verb = call.stance === "debunk" ? "disputes" : "stands by";
+    report(`${call.player_name} ${verb} report: ${call.story}`, `${call.player_name} accused of muddying the waters`);
+    articles[articles.length - 1].mentions_players = [call.player_id];
+  }
+
+  const rumors = roll(state, "media", 200) < 0.5
+    ? [{
+        text: "Someone close to the government is said to be moving money abroad.",
+        credibility: round(roll(state, "media", 201)),
+        truth_score: round(roll(state, "media", 202)),
+      }]
+    : [];
+
+  return conform("media", { headlines, articles, rumors });
+}
+
+// ============================================================================
+// POLITICAL REACTION — approval follows hardship, movements follow anger
+// ============================================================================
+
+function mockPoliticalReaction(input: { media: any; analyst: any; state: any }) {
+  const { state } = input;
+  const { economy, society } = state;
+
+  // Hardship above baseline costs approval; growth earns a little back
+  const hardship = (economy.inflation - 2) * 0.3 + (economy.unemployment - 5) * 0.4 - economy.gdp_delta * 0.05;
+  const base = clamp(-hardship, -15, 15);
+  const jitter = (k: number) => (roll(state, "political_reaction", k) - 0.5) * 2;
+
+  const approval_delta = {
+    overall: round(base + jitter(0)),
+    citizens: round(clamp(base * 1.2 + jitter(1), -15, 15)),
+    business: round(clamp(economy.gdp_delta * 0.1 - (economy.tax_rate - 20) * 0.2 + jitter(2), -15, 15)),
+    elite: round(jitter(3)),
+  };
+
+  const protest_prob = round(clamp(
+    (society.radicalization / 100) * 0.5 + ((100 - society.satisfaction) / 100) * 0.3 + (economy.market.shortage ? 0.1 : 0),
+    0, 1,
+  ));
+
+  const movements: any[] = [];
+  const existing = state.society.movements as any[];
+  if (society.radicalization > 50 && !existing.some(m => m.type === "radical")) {
+    movements.push({ action: "create", name: "The Rising Front", type: "radical", demands: ["Dissolve the government"] });
+  } else if (economy.unemployment > 15 && !existing.some(m => m.type === "labor")) {
+    movements.push({ action: "create", name: "Workers' Common Cause", type: "labor", demands: ["Jobs for all", "Fair wages"] });
+  }
+  for (const m of existing) {
+    if (protest_prob > 0.4) movements.push({ action: "strengthen", id: m.id, delta: round(protest_prob * 0.2) });
+    else if (m.strength < 0.05) movements.push({ action: "dissolve", id: m.id });
+  }
+
+  const suppressed_warnings = society.public_trust < 30 && economy.inflation > 10
+    ? ["Rising prices are no longer news; the public has stopped reacting."]
+    : [];
+
+  const public_mood =
+    protest_prob > 0.7 ? "volatile" :
+    protest_prob > 0.5 ? "angry" :
+    base < -5 ? "anxious" :
+    base > 5 ? "optimistic" : "cautious";
+
+  return conform("political_reaction", { approval_delta, protest_prob, movements, suppressed_warnings, public_mood });
+}
+
+// ============================================================================
+// CRISIS — follows the contract's when-to-act rules
+// ============================================================================
+
+const CRISIS_MENU: { type: string; variable: string; social: boolean; hook: string }[] = [
+  { type: "market_crash", variable: "economy.market.price_index", social: false, hook: "The tickers all turned red at once" },
+  { type: "scandal", variable: "government.approval.overall", social: true, hook: "A leaked memo nobody can explain" },
+  { type: "protest", variable: "society.stability", social: true, hook: "The square filled before dawn" },
+  { type: "strike", variable: "economy.market.supply", social: false, hook: "The gates stayed shut" },
+  { type: "foreign_shock", variable: "economy.gdp", social: false, hook: "A border closed overnight" },
+  { type: "natural_disaster", variable: "economy.budget.reserves", social: false, hook: "The river did not stop rising" },
+];
+
+function mockCrisis(input: { analyst: any; political: any; state: any }) {
+  const { state } = input;
+  const { society } = state;
+
+  // Contract: not in the first 5 ticks, never pile on, never stack majors
+  if (state.meta.tick < 5) return null;
+  if (society.stability < 30) return null;
+  if (state.events.some((e: any) => e.status === "applied" && e.severity >= 4 && (e.expires_tick === null || e.expires_tick > state.meta.tick))) {
+    return null;
+  }
+
+  const pressure =
+    (society.stability > 80 ? 0.3 : 0.05) +
+    ((input.political?.suppressed_warnings?.length ?? 0) > 0 ? 0.2 : 0);
+  if (roll(state, "crisis", 0) >= pressure) return null;
+
+  const severity = 1 + Math.floor(roll(state, "crisis", 2) * 3);
+
+  // A compromised player is the likeliest story there is
+  const suspect = (Object.values(state.players) as any[])
+    .filter(p => p.alive && p.hidden_stats.corruption >= MIN_EXPOSABLE_CORRUPTION)
+    .sort((a, b) => b.hidden_stats.corruption - a.hidden_stats.corruption)[0];
+  if (suspect && roll(state, "crisis", 4) < 0.5) {
+    return conform("crisis", {
+      event_type: "corruption_exposed",
+      severity,
+      affected_vars: ["society.public_trust"],
+      modifiers: [{ variable: "society.public_trust", operation: "add", value: -(severity * 3) }],
+      narrative_hook: "The ledger nobody was meant to read",
+      duration_ticks: 1,
+      target_player_id: suspect.id,
+      reasoning: "Someone's dealings had grown too large to stay hidden.",
+    });
+  }
+
+  const crisis = pick(CRISIS_MENU, roll(state, "crisis", 1));
+  const modifier = crisis.social
+    ? { variable: crisis.variable, operation: "add", value: -(severity * 5) }
+    : { variable: crisis.variable, operation: "multiply", value: round(1 - severity * 0.04, 3) };
+
+  return conform("crisis", {
+    event_type: crisis.type,
+    severity,
+    affected_vars: [crisis.variable],
+    modifiers: [modifier],
+    narrative_hook: crisis.hook,
+    duration_ticks: 1 + Math.floor(roll(state, "crisis", 3) * 3),
+    target_player_id: null,
+    reasoning: society.stability > 80 ? "The country had grown comfortable." : "Suppressed pressure found an outlet.",
+  });
+}
+
+// ============================================================================
+// HISTORIAN — eras follow mood, reputations follow activity
+// ============================================================================
+
+const ERA_NAMES: Record<string, string> = {
+  genesis: "The Founding",
+  growth: "The Boom Years",
+  tension: "The Uneasy Peace",
+  decline: "The Long Slide",
+  crisis: "The Unraveling",
+  revolution: "The Upheaval",
+  recovery: "The Mending",
+  stagnation: "The Grey Years",
+};
+
+const ROLE_TITLES: Record<string, string[]> = {
+  citizen: ["The Quiet Voter", "Voice of the Street", "The Restless One"],
+  business_owner: ["The Industrialist", "Merchant of the Hour", "The Quiet Fortune"],
+  politician: ["The Orator", "Architect of Promises", "The Backroom Hand"],
+};
+
+function mockHistorian(input: { state: any; tick_events: any[] }) {
+  const { state } = input;
+  const { economy, society } = state;
+  const tick = state.meta.tick;
+
+  const era_mood =
+    society.radicalization > 80 && society.stability < 25 ? "revolution" :
+    society.stability < 30 ? "crisis" :
+    economy.gdp_delta < -10 ? "decline" :
+    economy.gdp_delta > 10 ? "growth" :
+    society.protest_pressure > 0.5 ? "tension" :
+    tick < 5 ? "genesis" : "stagnation";
+
+  // Eras last at least 5 ticks so the record does not flap
+  const current = state.history.eras[state.history.eras.length - 1];
+  const candidate = ERA_NAMES[era_mood];
+  const era_transition = !!current && current.name !== candidate && tick - current.tick_start >= 5;
+  const era_name = era_transition || !current ? candidate : current.name;
+
+  const player_reputations: Record<string, any> = {};
+  const dominant_figures: string[] = [];
+  for (const [id, player] of Object.entries(state.players) as any[]) {
+    const last = player.actions_history?.[player.actions_history.length - 1];
+    if (!last || last.tick !== tick) continue;
+
+    const previous = state.history.player_reputations?.[id]?.legacy_score ?? 0;
+    const r = roll(state, "historian", dominant_figures.length);
+    player_reputations[id] = {
+      title: pick(ROLE_TITLES[player.role] ?? ["The Unknown"], r),
+      legacy_score: Math.round(clamp(previous + (r - 0.4) * 10, -100, 100)),
+      notable_actions: last.actions.map((a: any) => a.action_type),
+    };
+    dominant_figures.push(id);
+  }
+
+  return conform("historian", {
+    era_transition,
+    era_name,
+    summary: `Tick ${tick}: ${input.tick_events.length} events shaped a ${era_mood} period.`,
+    key_events: input.tick_events.slice(0, 3).map((e: any) => e.description),
+    dominant_figures: dominant_figures.slice(0, 3),
+    player_reputations,
+    era_mood,
+  });
+}
+
+// ============================================================================
+// BUILD MOCK AISystemRegistry
+// ============================================================================
+// Same shape as buildAIRegistry(). Synchronous rules wrapped in async so the
+// engine cannot tell the difference.
+
+export function buildMockAIRegistry() {
+  return {
+    stateAnalyst: async (input: { state: any; actions: any[] }) => mockStateAnalyst(input),
+    judiciary: async (input: { law: any; state: any }) => mockJudiciary(input),
+    media: async (input: { analyst: any; judiciary: any[]; leaks: any[]; fact_checks: any[]; state: any }) => mockMedia(input),
+    politicalReaction: async (input: { media: any; analyst: any; state: any }) => mockPoliticalReaction(input),
+    crisis: async (input: { analyst: any; political: any; state: any }) => mockCrisis(input),
+    historian: async (input: { state: any; tick_events: any[] }) => mockHistorian(input),
+  };
+}
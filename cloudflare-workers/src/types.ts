@@ -7,4 +7,6 @@ export interface Env {
   CLAUDE_API_KEY: string;
   TICK_INTERVAL_HOURS: string;
   MAX_PLAYERS_PER_SERVER: string;
+  AI_MODE: string; // "claude" | "mock"
+  ADMIN_TOKEN?: string; // secret; admin routes answer 403 while unset
 }
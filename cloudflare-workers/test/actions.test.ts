@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { processTick, findAction, checkAction, listActions } from "../../shared/core-engine";
+import type { WorldState, Player, PlayerAction } from "../../shared/core-engine";
+import { STUB_AI, clone, startingState } from "./fixtures";
+
+function act(action_type: string, params: PlayerAction["params"] = {}): PlayerAction {
+  return { action_type, submitted_at: "t", params };
+}
+
+function specFor(type: string, role: Player["role"]) {
+  const spec = findAction(type, role);
+  if (!spec) throw new Error(`no ${type} action for ${role}`);
+  return spec;
+}
+
+/** Runs one tick with `actions` queued, straight into the tick as a replay would */
+async function runTick(state: WorldState, actions: Record<string, PlayerAction[]>): Promise<WorldState> {
+  for (const [id, queued] of Object.entries(actions)) state.players[id].actions_pending = queued;
+  await processTick(state, STUB_AI, { now: new Date(Date.UTC(2024, 0, 1)) });
+  return state;
+}
+
+describe("action prerequisites", () => {
+  it("refuses intimidation from a politician out of office", () => {
+    const state = startingState();
+    const p1 = state.players.p1;
+    p1.role_data.politician.in_office = false;
+
+    expect(checkAction(state, p1, specFor("intimidate", "politician"), { player_id: "c1" })).toBe("you do not hold office");
+  });
+
+  it("refuses lobbying anyone but a politician", () => {
+    const state = startingState();
+    const b1 = state.players.b1;
+    const lobby = specFor("lobby", "business_owner");
+
+    expect(checkAction(state, b1, lobby, { politician_id: "c1" })).toBe("no such politician");
+    expect(checkAction(state, b1, lobby, { politician_id: "nobody" })).toBe("no such politician");
+    expect(checkAction(state, b1, lobby, { politician_id: "p1" })).toBeNull();
+  });
+});
+
+describe("action costs", () => {
+  it("keeps one investigate entry and prices it by role", () => {
+    expect(listActions().filter(a => a.type === "investigate")).toHaveLength(1);
+
+    const state = startingState();
+    state.media_state.headlines = [{ id: "h1", text: "Mill to close", bias: "populist", truth_score: 0.2 }];
+    const investigate = specFor("investigate", "citizen");
+    const params = { story_id: "h1" };
+
+    state.players.c1.visible_stats.wealth = 2;
+    expect(checkAction(state, state.players.c1, investigate, params)).toBe("you cannot afford it");
+    state.players.b1.visible_stats.wealth = 9;
+    expect(checkAction(state, state.players.b1, investigate, params)).toBe("you cannot afford it");
+    state.players.b1.visible_stats.wealth = 10;
+    expect(checkAction(state, state.players.b1, investigate, params)).toBeNull();
+    state.players.p1.hidden_stats.influence = 0;
+    expect(checkAction(state, state.players.p1, investigate, params)).toBe("you lack the standing");
+  });
+
+  it("charges nothing and starts no cooldown for an action that fails when it runs", async () => {
+    const start = startingState();
+    const idle = await runTick(clone(start), {});
+    const failed = await runTick(clone(start), { b1: [act("intimidate", { player_id: "nobody" })] });
+
+    const b1 = failed.players.b1;
+    expect(b1.actions_history.at(-1)?.actions[0].outcome).toEqual({ success: false, reason: "no such target" });
+    expect(b1.hidden_stats.influence).toBe(idle.players.b1.hidden_stats.influence);
+    expect(b1.visible_stats.wealth).toBe(idle.players.b1.visible_stats.wealth);
+    expect(b1.last_taken?.intimidate).toBeUndefined();
+  });
+
+  it("charges an action that goes through and starts its cooldown", async () => {
+    const start = startingState();
+    const idle = await runTick(clone(start), {});
+    const done = await runTick(clone(start), { b1: [act("intimidate", { player_id: "c1" })] });
+
+    const b1 = done.players.b1;
+    expect(b1.actions_history.at(-1)?.actions[0].outcome?.success).toBe(true);
+    // The 2 influence comes off before the tick's decay, which then scales what is left
+    const before = start.players.b1.hidden_stats.influence;
+    expect(b1.hidden_stats.influence).toBeCloseTo(idle.players.b1.hidden_stats.influence * (before - 2) / before);
+    expect(b1.last_taken?.intimidate).toBe(start.meta.tick);
+  });
+});
+
+describe("action params in the tick", () => {
+  it("refuses bad params the submit check never saw, without stopping the tick", async () => {
+    const state = await runTick(startingState(), {
+      c1: [act("found_movement", { type: "labor" })],
+      c2: [act("work")],
+    });
+
+    const [founded] = state.players.c1.actions_history.at(-1)?.actions ?? [];
+    expect(founded.rejected).toBe("Movement Name is required");
+    expect(founded.outcome).toEqual({ success: false, reason: "Movement Name is required" });
+    expect(state.society.movements).toHaveLength(0);
+    expect(state.players.c2.actions_history.at(-1)?.actions[0].outcome).toBeDefined();
+  });
+
+  it("coerces params before the processor sees them", async () => {
+    const state = await runTick(startingState(), { b1: [act("set_wages", { wage_level: "2.5" })] });
+
+    expect(state.players.b1.actions_history.at(-1)?.actions[0].outcome?.success).toBe(true);
+    expect(state.players.b1.role_data.business_owner.wage_level).toBe(2.5);
+  });
+});
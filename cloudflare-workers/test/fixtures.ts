@@ -0,0 +1,76 @@
+// A small starting world and fixed AI answers, shared by the test suites
+
+import initial from "../../shared/world-state-initial.json";
+import type { WorldState, Player, AISystemRegistry } from "../../shared/core-engine";
+
+const ROLE_DATA: Record<Player["role"], any> = {
+  citizen: {
+    citizen: {
+      employer_id: null, satisfaction: 50, economic_pressure: 30, radicalization: 5, voted_this_tick: false,
+      job_application: null, hardship_ticks: 0, taxable_income: 0, tax_paid: 0, welfare_received: 0,
+    },
+  },
+  business_owner: {
+    business_owner: {
+      production_capacity: 10, wage_level: 1, employees: 5, tax_evasion: 0, lobby_target: null, strike_risk: 0.1,
+      lobby_money_received: 0, job_openings: 0, inventory: 0, price: 1, units_sold: 0, last_sales: 0,
+      market_share: 0, taxable_income: 0, tax_paid: 0,
+    },
+  },
+  politician: {
+    politician: {
+      party: null, laws_proposed: 0, laws_passed: 0, public_statements: [], lobby_money_received: 0,
+      in_office: true, defeats: 0,
+    },
+  },
+};
+
+// Fixed answers, so a recorded run only varies with the actions fed to it
+export const STUB_AI: AISystemRegistry = {
+  stateAnalyst: async () => ({ trends: [], risks: [], projections: {}, confidence: 0.5 }),
+  judiciary: async ({ law }) => ({
+    law_id: law.id,
+    interpretation: "As written.",
+    ambiguities: [],
+    implementation: { affected_variables: [], modifiers: [] },
+  }),
+  media: async () => ({
+    headlines: [{ text: "Quiet week in the capital", bias: "establishment", truth_score: 0.8, source_event_id: null }],
+    articles: [{ headline_index: 0, body: "Nothing much happened.", bias: "establishment", mentions_players: [] }],
+    rumors: [{ text: "Something is brewing", credibility: 0.4 }],
+  }),
+  politicalReaction: async () => ({ approval_delta: { overall: 0 }, protest_prob: 0.1, movements: [], suppressed_warnings: [] }),
+  crisis: async () => null,
+  historian: async () => null,
+};
+
+export function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/** A fresh player, as the server's addPlayerToState builds one */
+export function newPlayer(id: string, role: Player["role"], tick: number): Player {
+  return {
+    id,
+    role,
+    name: id.toUpperCase(),
+    joined_tick: tick,
+    alive: true,
+    hidden_stats: { influence: 5, reputation: 0, fear: 0, corruption: 0, historical_legacy: 0 },
+    visible_stats: { wealth: 100, movement_id: null },
+    role_data: clone(ROLE_DATA[role]),
+    actions_pending: [],
+    actions_history: [],
+    last_taken: {},
+    fact_checks: [],
+  };
+}
+
+export function startingState(): WorldState {
+  const state = clone(initial) as unknown as WorldState;
+  const roster: [string, Player["role"]][] = [["c1", "citizen"], ["c2", "citizen"], ["b1", "business_owner"], ["p1", "politician"]];
+  for (const [id, role] of roster) {
+    state.players[id] = newPlayer(id, role, 0);
+  }
+  return state;
+}
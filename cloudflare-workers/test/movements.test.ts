@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { processTick } from "../../shared/core-engine";
+import type { WorldState, PlayerAction } from "../../shared/core-engine";
+import { STUB_AI, clone, startingState } from "./fixtures";
+
+/** c1 works for b1 and leads a small labor movement */
+function unionShop(): WorldState {
+  const state = startingState();
+  state.players.c1.role_data.citizen.employer_id = "b1";
+  state.players.c1.visible_stats.movement_id = "m1";
+  state.society.movements.push({
+    id: "m1",
+    name: "Mill Workers",
+    type: "labor",
+    strength: 0.5,
+    demands: [],
+    member_player_ids: ["c1"],
+    created_tick: 0,
+    leader_id: "c1",
+  });
+  return state;
+}
+
+async function tick(state: WorldState, actions: Record<string, PlayerAction[]> = {}): Promise<number> {
+  for (const [id, queued] of Object.entries(actions)) state.players[id].actions_pending = queued;
+  await processTick(state, STUB_AI, { now: new Date(Date.UTC(2024, 0, 1, state.meta.tick)) });
+  return state.players.b1.role_data.business_owner.production_capacity;
+}
+
+describe("strikes", () => {
+  it("cuts the firm's capacity for STRIKE_TICKS ticks, then hands it back", async () => {
+    const start = unionShop();
+    const struck = clone(start);
+    const calm = clone(start);
+    const strike: PlayerAction = { action_type: "movement_action", submitted_at: "t", params: { kind: "strike" } };
+
+    // The strike takes 2 capacity per point of movement strength
+    expect((await tick(struck, { c1: [strike] })) - (await tick(calm))).toBeCloseTo(-1);
+    expect(struck.players.c1.actions_history.at(-1)?.actions[0].outcome?.success).toBe(true);
+    expect(struck.players.b1.role_data.business_owner.strike_losses).toEqual([{ until: 3, capacity: 1 }]);
+
+    for (let t = 1; t < 3; t++) {
+      expect((await tick(struck)) - (await tick(calm))).toBeCloseTo(-1);
+    }
+
+    expect(await tick(struck)).toBeCloseTo(await tick(calm));
+    expect(struck.players.b1.role_data.business_owner.strike_losses).toEqual([]);
+  });
+});
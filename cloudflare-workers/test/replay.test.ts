@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { processTick } from "../../shared/core-engine";
+import type { WorldState } from "../../shared/core-engine";
+import { replayTicks } from "../../shared/replay";
+import type { ReplayFrame } from "../../shared/replay";
+import { STUB_AI, clone, newPlayer, startingState } from "./fixtures";
+
+/** Runs a live game for `ticks`, calling `between` before each tick and recording a frame per tick */
+async function record(
+  state: WorldState,
+  ticks: number,
+  between: (state: WorldState, frame: Partial<ReplayFrame>) => void,
+): Promise<ReplayFrame[]> {
+  const frames: ReplayFrame[] = [];
+  for (let t = 0; t < ticks; t++) {
+    const frame: Partial<ReplayFrame> = {};
+    between(state, frame);
+    frame.actions = Object.fromEntries(Object.entries(state.players).map(([id, p]) => [id, clone(p.actions_pending)]));
+    const { log } = await processTick(state, STUB_AI, { now: new Date(Date.UTC(2024, 0, 1, t)) });
+    frames.push({ ...frame, actions: frame.actions, log: clone(log) });
+  }
+  return frames;
+}
+
+/** Everyone does something every tick */
+function busy(state: WorldState): void {
+  state.players.c1.actions_pending.push({ action_type: "work", submitted_at: "t", params: {} });
+  state.players.c2.actions_pending.push({ action_type: "apply_job", submitted_at: "t", params: {} });
+  state.players.b1.actions_pending.push({ action_type: "post_jobs", submitted_at: "t", params: { slots: 1 } });
+}
+
+describe("replayTicks", () => {
+  it("reproduces every tick of a recorded run", async () => {
+    const start = startingState();
+    const live = clone(start);
+    const frames = await record(live, 6, busy);
+
+    const report = await replayTicks(start, frames);
+    expect(report.diverged_at).toBeNull();
+    expect(report.ticks_replayed).toBe(6);
+    expect(report.state.meta.tick).toBe(live.meta.tick);
+    expect(report.state.players).toEqual(live.players);
+  });
+
+  it("stops at the first tick whose actions were changed", async () => {
+    const start = startingState();
+    const frames = await record(clone(start), 6, busy);
+
+    // c1 stays home in tick 3 instead of working
+    frames[3].actions.c1 = [];
+    const report = await replayTicks(start, frames);
+    expect(report.diverged_at).toBe(3);
+    expect(report.ticks_replayed).toBe(4);
+    expect(report.actual_hash).not.toBe(report.expected_hash);
+  });
+
+  it("diffs against the live state when a frame carries it", async () => {
+    const start = startingState();
+    const live = clone(start);
+    const frames = await record(live, 2, busy);
+    frames[1].expected_state = clone(live);
+
+    frames[1].actions.c1 = [];
+    const report = await replayTicks(start, frames);
+    expect(report.diverged_at).toBe(1);
+    expect(report.differences.some(d => d.path.startsWith("players.c1."))).toBe(true);
+  });
+
+  it("reproduces every tick across an elimination and a rejoin", async () => {
+    const start = startingState();
+    // b1 goes bankrupt in the first tick
+    start.players.b1.visible_stats.wealth = -1000;
+    let rejoinTick = -1;
+
+    const frames = await record(clone(start), 12, (state, frame) => {
+      const b1 = state.players.b1;
+      state.players.c1.actions_pending.push({ action_type: "work", submitted_at: "t", params: {} });
+
+      // Rejoin as soon as the cooldown allows, the way handleRejoin rebuilds the player
+      if (!b1.alive && rejoinTick < 0 && state.meta.tick - (b1.eliminated_tick ?? 0) >= 5) {
+        const reborn = newPlayer("b1", "citizen", state.meta.tick);
+        reborn.hidden_stats.reputation = b1.hidden_stats.reputation;
+        reborn.hidden_stats.historical_legacy = b1.hidden_stats.historical_legacy;
+        reborn.actions_history = b1.actions_history;
+        state.players.b1 = reborn;
+        frame.rejoined = { b1: clone(reborn) };
+        rejoinTick = state.meta.tick;
+      }
+      if (rejoinTick >= 0 && state.players.b1.alive) {
+        state.players.b1.actions_pending.push({ action_type: "apply_job", submitted_at: "t", params: {} });
+      }
+    });
+
+    expect(frames[0].log.tick).toBe(0);
+    expect(rejoinTick).toBeGreaterThan(0);
+    expect(rejoinTick).toBeLessThan(11);
+
+    const report = await replayTicks(start, frames);
+    expect(report.diverged_at).toBeNull();
+    expect(report.ticks_replayed).toBe(12);
+    expect(report.state.players.b1.role).toBe("citizen");
+    expect(report.state.players.b1.alive).toBe(true);
+
+    // Without the rejoin on record, the replay must notice
+    const unrecorded = frames.map(({ rejoined: _rejoined, ...frame }) => frame);
+    const broken = await replayTicks(start, unrecorded);
+    expect(broken.diverged_at).toBe(rejoinTick);
+  });
+});
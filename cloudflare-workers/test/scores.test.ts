@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { computeFinalScores } from "../../shared/core-engine";
+import worker from "../src/index";
+import type { Env } from "../src/types";
+import { startingState } from "./fixtures";
+
+describe("computeFinalScores", () => {
+  it("counts legacy double and holds fear against the player", () => {
+    const state = startingState();
+    // Same influence, reputation and wealth all round
+    state.players.c1.hidden_stats.historical_legacy = 10;
+    state.players.c2.hidden_stats.influence = 25;
+    state.players.b1.hidden_stats.fear = 40;
+
+    // 10 legacy is worth 20 influence, so c1 and c2 tie and go by id
+    const scores = computeFinalScores(state);
+    expect(scores.map(s => s.player_id)).toEqual(["c1", "c2", "p1", "b1"]);
+    expect(scores[0].score - scores[2].score).toBeCloseTo(20);
+    expect(scores[2].score - scores[3].score).toBeCloseTo(20);
+  });
+
+  it("breaks ties by player id and carries the Historian's title", () => {
+    const state = startingState();
+    state.history.player_reputations = { p1: { title: "The Builder" } };
+
+    const scores = computeFinalScores(state);
+    expect(scores.map(s => s.player_id)).toEqual(["b1", "c1", "c2", "p1"]);
+    expect(scores.find(s => s.player_id === "p1")?.title).toBe("The Builder");
+    expect(scores.find(s => s.player_id === "c1")?.title).toBeNull();
+  });
+});
+
+describe("GET /server/:id/scores", () => {
+  const scores = { tick: 3, scores: [] };
+  const env = (token?: string) => ({
+    ADMIN_TOKEN: token,
+    GAME_SERVER: {
+      idFromString: (id: string) => id,
+      get: () => ({ fetch: async () => Response.json(scores) }),
+    },
+  }) as unknown as Env;
+  const get = (e: Env, auth?: string) =>
+    worker.fetch(
+      new Request("http://test/server/abc/scores", auth ? { headers: { Authorization: auth } } : {}),
+      e,
+      {} as ExecutionContext,
+    );
+
+  it("is closed while no admin token is configured", async () => {
+    expect((await get(env(), "Bearer ")).status).toBe(403);
+    expect((await get(env(""), "Bearer ")).status).toBe(403);
+  });
+
+  it("refuses a missing or wrong token", async () => {
+    expect((await get(env("s3cret"))).status).toBe(403);
+    expect((await get(env("s3cret"), "Bearer guess")).status).toBe(403);
+  });
+
+  it("serves the scores to the operator", async () => {
+    const res = await get(env("s3cret"), "Bearer s3cret");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(scores);
+  });
+});
@@ -0,0 +1,76 @@
+// ============================================================================
+// They Voted For This — Action Param Validation
+// ============================================================================
+// Checks submitted params against the ActionDef they claim to be. Used at
+// submit time, so a bad action is refused with a reason per field instead of
+// being dropped silently by its processor during the tick.
+// ============================================================================
+
+import type { ActionDef, ActionParamDef } from "./types";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ActionParams = Record<string, string | number>;
+
+export type ParamValidation =
+  | { ok: true; params: ActionParams }
+  | { ok: false; errors: FieldError[] };
+
+/**
+ * Returns the params coerced to their declared types: numbers as numbers,
+ * text trimmed. Blank optional params are dropped; unknown params are ignored.
+ */
+export function validateActionParams(def: ActionDef, raw: unknown): ParamValidation {
+  const input = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const params: ActionParams = {};
+  const errors: FieldError[] = [];
+
+  for (const param of def.params) {
+    const value = input[param.name];
+    const blank = value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+    if (blank) {
+      if (param.required) errors.push({ field: param.name, message: `${param.label} is required` });
+      continue;
+    }
+
+    const result = param.type === "number" ? checkNumber(param, value) : checkText(param, value);
+    if (typeof result === "string") errors.push({ field: param.name, message: result });
+    else params[param.name] = result.value;
+  }
+
+  if (def.sumTo !== undefined && errors.length === 0) {
+    const numbers = def.params.filter(p => p.type === "number");
+    const sum = numbers.reduce((total, p) => total + ((params[p.name] as number | undefined) ?? 0), 0);
+    if (Math.abs(sum - def.sumTo) > 0.01) {
+      for (const p of numbers) {
+        errors.push({ field: p.name, message: `${numbers.map(n => n.label).join(", ")} must add up to ${def.sumTo}` });
+      }
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, params };
+}
+
+function checkNumber(param: ActionParamDef, value: unknown): { value: number } | string {
+  const n = typeof value === "string" ? Number(value.trim()) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) return `${param.label} must be a number`;
+  if (param.integer && !Number.isInteger(n)) return `${param.label} must be a whole number`;
+  if (param.min !== undefined && n < param.min) return `${param.label} must be at least ${param.min}`;
+  if (param.max !== undefined && n > param.max) return `${param.label} must be at most ${param.max}`;
+  return { value: n };
+}
+
+function checkText(param: ActionParamDef, value: unknown): { value: string } | string {
+  if (typeof value !== "string" && typeof value !== "number") return `${param.label} must be text`;
+  const text = String(value).trim();
+  if (param.type === "select" && param.options && !param.options.includes(text)) {
+    return `${param.label} must be one of: ${param.options.join(", ")}`;
+  }
+  if (param.maxLength !== undefined && text.length > param.maxLength) {
+    return `${param.label} must be at most ${param.maxLength} characters`;
+  }
+  return { value: text };
+}
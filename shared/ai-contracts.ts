@@ -57,7 +57,7 @@ OUTPUT FORMAT â€” you MUST return exactly this JSON structure:
   ],
   "risks": [
     {
-      "type": "<risk category: economic_crisis | hyperinflation | unemployment_spike | social_unrest | revolution | budget_collapse | market_shortage | political_instability>",
+      "type": "<risk category: economic_crisis | hyperinflation | unemployment_spike | social_unrest | revolution | budget_collapse | market_shortage | market_concentration | political_instability>",
       "severity": <1-5>,
       "probability": <float 0.0-1.0>,
       "trigger_variable": "<which variable is driving this risk>",
@@ -77,11 +77,14 @@ VARIABLE NAMES must use dot-path notation matching world state schema:
 economy.gdp, economy.inflation, economy.unemployment, economy.tax_rate,
 economy.tax_compliance, economy.budget.reserves, economy.budget.deficit,
 economy.market.supply, economy.market.demand, economy.market.price_index,
-society.stability, society.public_trust, society.satisfaction,
+economy.market.concentration, society.stability, society.public_trust, society.satisfaction,
 society.radicalization, society.protest_pressure,
 government.approval.overall, government.approval.citizens,
 government.approval.business, government.approval.elite
 
+Each business owner's role_data carries inventory, price (a markup on the price index) and market_share.
+economy.market.concentration is the sum of squared shares: above 0.5 one firm dominates.
+
 You will receive the full world state and list of player actions from this tick.
 Analyze. Quantify. Output JSON. Nothing else.`,
 
@@ -149,7 +152,8 @@ OUTPUT FORMAT â€” you MUST return exactly this JSON structure:
         "operation": "set" | "add" | "multiply" | "clamp",
         "value": <number>,
         "min": <optional number for clamp>,
-        "max": <optional number for clamp>
+        "max": <optional number for clamp>,
+        "mode": "once" | "per_tick" | "target"
       }
     ]
   },
@@ -163,6 +167,12 @@ MODIFIER OPERATIONS:
 - "multiply": multiply current by value (0.9 = 10% reduction, 1.1 = 10% increase)
 - "clamp": restrict current value between min and max
 
+MODIFIER MODES (default "target"):
+- "once": applied when the law takes effect, never again, never undone (a one-off payment, a seizure)
+- "per_tick": applied again every tick the law is in force, undone on repeal (a steady drain or drift)
+- "target": held at the operation's result while the law is in force, undone on repeal (a rate, a cap, a level)
+Choose the mode the law text implies. A "per_tick" modifier compounds, so use it sparingly.
+
 VALID VARIABLES for modifiers:
 economy.gdp, economy.inflation, economy.unemployment, economy.tax_rate,
 economy.tax_compliance, economy.wage_index, economy.budget.spending,
@@ -200,7 +210,7 @@ Find the cracks. Exploit them legally. Output JSON. Nothing else.`,
   ambiguities: string[],
   implementation: {
     affected_variables: string[],
-    modifiers: { variable: string, operation: string, value: number, min?: number, max?: number }[]
+    modifiers: { variable: string, operation: string, value: number, min?: number, max?: number, mode?: "once" | "per_tick" | "target" }[]
   },
   conflicts_with: string[],
   severity_assessment: number
@@ -249,11 +259,13 @@ CRITICAL RULES:
    - 0.1 = barely connected to reality
    - 0.0 = complete fabrication
 5. You MUST generate at least one headline with truth_score < 0.5.
-6. Rumors should be plausible but unverifiable from available data.
+6. Rumors should be plausible but unverifiable from available data. Give each rumor a truth_score on the same scale as headlines; players never see it, but they can investigate.
 7. If a judiciary interpretation is available, generate at least one headline about it.
 8. If analyst risks are high severity (4+), lead with that story â€” but distort the cause.
 9. NEVER reveal hidden stat values. Describe effects, not numbers.
 10. Mention player names when relevant (use player IDs from input).
+11. If leaks are present, at least one headline must break each one, with source_event_id set to its event_id. The facts in a leak are settled; spin them, but do not invent a different culprit.
+12. fact_checks are players who publicly debunked or amplified a story since the last cycle. Cover the ones that make good copy; an outlet may side with the caller or go after them.
 
 NARRATIVE GUIDELINES:
 - Contradictions between headlines are GOOD. Different outlets see different realities.
@@ -282,12 +294,13 @@ OUTPUT FORMAT â€” you MUST return exactly this JSON structure:
   "rumors": [
     {
       "text": "<max 200 chars>",
-      "credibility": <float 0.0-1.0, how believable this APPEARS to readers>
+      "credibility": <float 0.0-1.0, how believable this APPEARS to readers>,
+      "truth_score": <float 0.0-1.0, how true it actually is>
     }
   ]
 }
 
-You will receive State Analyst data (may be null if analyst failed), judiciary interpretations, political statements, active events, and a state summary.
+You will receive State Analyst data (may be null if analyst failed), judiciary interpretations, political statements, active events, leaks from corruption investigations, players' public fact-checks, and a state summary.
 Spin. Distort. Inform. Mislead. Output JSON. Nothing else.`,
 
   input_schema: `{
@@ -295,6 +308,8 @@ Spin. Distort. Inform. Mislead. Output JSON. Nothing else.`,
   judiciary_interpretations: { law_id: string, interpretation: string, ambiguities: string[], severity: number }[],
   political_statements: { player_id: string, player_name: string, tick: number, text: string }[],
   active_events: { type: string, severity: number, description: string, narrative_hook: string }[],
+  leaks: { event_id: string, player_ids: string[], player_names: string[], description: string, narrative_hook: string }[],
+  fact_checks: { player_id: string, player_name: string, stance: "debunk" | "amplify", story: string }[],
   state_summary: {
     gdp_trend: "up" | "down" | "stable",
     inflation: number,
@@ -310,7 +325,7 @@ Spin. Distort. Inform. Mislead. Output JSON. Nothing else.`,
   output_schema: `{
   headlines: { text: string, bias: string, truth_score: number, source_event_id: string | null }[],
   articles: { headline_index: number, body: string, bias: string, mentions_players: string[] }[],
-  rumors: { text: string, credibility: number }[]
+  rumors: { text: string, credibility: number, truth_score: number }[]
 }`,
 
   failure_fallback: "Core Engine generates minimal placeholder headlines: 'No news reports available this cycle.' and 'Communications disrupted â€” details unclear.' Players receive sparse information. Political Reaction AI operates without media input.",
@@ -364,6 +379,8 @@ MOVEMENT DYNAMICS:
 - Strengthen when: conditions that created the movement persist
 - Dissolve when: demands are met or movement becomes irrelevant
 - Movement types: reform, populist, radical, separatist, labor, business
+- A new movement may carry up to 3 founding demands; after that its members raise their own
+- Weigh a movement by its members and recent collective action (strike, march, boycott), not just its strength
 
 OUTPUT FORMAT â€” you MUST return exactly this JSON structure:
 {
@@ -380,7 +397,8 @@ OUTPUT FORMAT â€” you MUST return exactly this JSON structure:
       "name": "<for create: movement name>",
       "type": "<for create: reform|populist|radical|separatist|labor|business>",
       "id": "<for strengthen/dissolve: existing movement ID>",
-      "delta": <for strengthen: float 0.0-0.3>
+      "delta": <for strengthen: float 0.0-0.3>,
+      "demands": ["<for create: optional founding demand, max 3>"]
     }
   ],
   "suppressed_warnings": [
@@ -403,7 +421,11 @@ React as a population would. Not rationally. Emotionally. Based on what they've
     price_trend: "up" | "down" | "stable"
   },
   current_approval: { overall: number, citizens: number, business: number, elite: number },
-  existing_movements: { id: string, name: string, type: string, strength: number }[],
+  existing_movements: {
+    id: string, name: string, type: string, strength: number,
+    demands: string[], members: number, has_leader: boolean,
+    last_action: { kind: "strike" | "march" | "boycott", ticks_ago: number } | null
+  }[],
   protest_pressure: number,
   recent_events: { type: string, severity: number, narrative_hook: string }[],
   tick_history_summary: string | null
@@ -412,7 +434,7 @@ React as a population would. Not rationally. Emotionally. Based on what they've
   output_schema: `{
   approval_delta: { overall: number, citizens: number, business: number, elite: number },
   protest_prob: number,
-  movements: { action: string, name?: string, type?: string, id?: string, delta?: number }[],
+  movements: { action: string, name?: string, type?: string, id?: string, delta?: number, demands?: string[] }[],
   suppressed_warnings: string[],
   public_mood: string
 }`,
@@ -438,7 +460,7 @@ If the world becomes predictable, comfortable, or optimized â€” you break i
 
 WHEN TO ACT:
 1. Stability > 80 for 3+ consecutive ticks â†’ inject instability
-2. One player or faction accumulating disproportionate power â†’ create counterforce
+2. One player or faction accumulating disproportionate power â†’ create counterforce (a firm dominating market_structure counts)
 3. Players found an optimal strategy and are repeating it â†’ disrupt the pattern
 4. Economy is too stable (low variance in GDP/inflation) â†’ market shock
 5. Political Reaction AI has suppressed_warnings â†’ those warnings may become crises
@@ -469,7 +491,7 @@ CRISIS TYPES:
 - strike: labor action, production halt
 - market_crash: sudden price/supply shock
 - shortage: goods scarcity, social pressure
-- corruption_exposed: player corruption revealed
+- corruption_exposed: player corruption revealed. Name the player in target_player_id, chosen from corruption_suspects. Core Engine settles fines, reputation and removal from office; keep modifiers to the wider fallout.
 - foreign_shock: external economic pressure (trade disruption, currency attack)
 - natural_disaster: infrastructure damage, budget drain
 - revolution: extreme â€” only at severity 5, only if radicalization > 80 AND stability < 25
@@ -488,6 +510,7 @@ OUTPUT FORMAT â€” return exactly this JSON structure, or null:
   ],
   "narrative_hook": "<evocative phrase for Media AI, max 50 chars>",
   "duration_ticks": <1-5>,
+  "target_player_id": "<player ID for corruption_exposed, else null>",
   "reasoning": "<max 50 words: why this crisis now>"
 }
 
@@ -498,7 +521,7 @@ MODIFIER GUIDELINES BY SEVERITY:
 - Severity 4: add Â±15-25 to social vars, multiply economic vars by 0.8-1.2
 - Severity 5: add Â±25-40 to social vars, multiply economic vars by 0.6-1.5
 
-You will receive analyst trends, political signals (including suppressed warnings), stability history, and current state summary.
+You will receive analyst trends, political signals (including suppressed warnings), stability history, corruption suspects, market structure, and current state summary.
 Break comfort. Punish optimization. Create story. Output JSON or null. Nothing else.`,
 
   input_schema: `{
@@ -516,7 +539,12 @@ Break comfort. Punish optimization. Create story. Output JSON or null. Nothing e
     top_player_influence: number
   },
   suppressed_warnings: string[],
-  player_behavior_patterns: string | null
+  player_behavior_patterns: string | null,
+  corruption_suspects: { player_id: string, player_name: string, role: string }[],
+  market_structure: {
+    concentration: number,  // 0-1, sum of squared shares
+    firms: { player_id: string, player_name: string, market_share: number, price: number }[]
+  }
 }`,
 
   output_schema: `{
@@ -526,6 +554,7 @@ Break comfort. Punish optimization. Create story. Output JSON or null. Nothing e
   modifiers: { variable: string, operation: string, value: number }[],
   narrative_hook: string,
   duration_ticks: number,
+  target_player_id: string | null,
   reasoning: string
 } | null`,
 
@@ -571,7 +600,7 @@ CRITICAL RULES:
 3. Player reputation titles should be dramatic: "The Reformer", "The Silent Oligarch", "Voice of the Forgotten"
 4. You write with gravitas. You are writing a history book, not a news report.
 5. Summaries should be 2-4 sentences. Dense with meaning.
-6. Legacy scores range from -100 (reviled) to +100 (legendary).
+6. Legacy scores range from -100 (reviled) to +100 (legendary). They carry weight: they shape each player's lasting influence and final standing.
 7. Only assign reputation updates to players who DID something notable this tick.
 8. You may reference previous eras for context.
 9. If nothing notable happened, say so briefly. Not every tick is historic.
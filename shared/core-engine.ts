@@ -12,6 +12,9 @@
 // ============================================================================
 
 import { createHash, randomInt } from "crypto";
+import type { ActionCost, ActionDef, ActionParamDef, ActionParamsMap, ActionPrerequisite, ActionType } from "./types";
+import { validateActionParams } from "./action-schema";
+import type { ActionParams } from "./action-schema";
 
 // ============================================================================
 // TYPES
@@ -38,6 +41,7 @@ interface Meta {
   created_at: string;
   phase: "accepting_actions" | "processing" | "ai_evaluation" | "resolved";
   seed: number;
+  trigger_cooldowns: Record<string, number>; // threshold trigger id -> last fired tick
 }
 
 interface Economy {
@@ -45,6 +49,7 @@ interface Economy {
   gdp_delta: number;
   inflation: number;
   unemployment: number;
+  npc_unemployment: number; // baseline for the non-player labour force
   tax_rate: number;
   tax_compliance: number;
   budget: Budget;
@@ -57,6 +62,10 @@ interface Budget {
   spending: number;
   reserves: number;
   deficit: number;
+  /** Collected from players' income this tick; part of revenue */
+  player_taxes?: number;
+  /** Paid out to low-wealth player citizens this tick; part of spending */
+  welfare_transfers?: number;
 }
 
 interface Market {
@@ -64,6 +73,8 @@ interface Market {
   demand: number;
   price_index: number;
   shortage: boolean;
+  /** Sum of squared player-firm market shares: 1 = one firm sells everything */
+  concentration?: number;
 }
 
 interface Society {
@@ -83,6 +94,18 @@ interface Movement {
   demands: string[];
   member_player_ids: string[];
   created_tick: number;
+  founded_by?: string | null;     // player id; absent or null when Political Reaction AI created it
+  leader_id?: string | null;
+  leader_backing?: Record<string, string>; // member id -> member they back to lead
+  last_action?: { kind: CollectiveAction; tick: number; target_id: string | null } | null;
+}
+
+type CollectiveAction = "strike" | "march" | "boycott";
+
+/** Capacity a strike took from a firm, kept on the firm until it comes back */
+interface StrikeLoss {
+  until: number;    // tick the capacity is handed back
+  capacity: number;
 }
 
 interface Government {
@@ -95,6 +118,36 @@ interface Government {
   budget_allocation: Record<string, number>;
   active_law_count: number;
   election_tick: number | null;
+  campaign: Campaign | null;
+  last_election: ElectionResult | null;
+  voting_rules: VotingRules;
+}
+
+interface VotingRules {
+  quorum: number;                 // share of eligible vote weight that must take part
+  majority: number;               // share of for/(for+against) that must be exceeded
+  supermajority: number;          // threshold instead, for the categories below
+  supermajority_categories: LawCategory[];
+  bicameral: boolean;             // politicians vote first, then citizens ratify
+  voting_window_ticks: number;    // ticks each stage stays open
+  influence_weight: number;       // vote weight = 1 + influence * influence_weight
+}
+
+type LawCategory = "general" | "fiscal" | "civil_rights" | "security" | "constitutional";
+type VotingStage = "politicians" | "citizens" | "joint";
+
+interface Campaign {
+  opened_tick: number;
+  candidates: Record<string, { support: number }>; // politician player_id -> campaign support
+  endorsements: Record<string, string>;             // endorser player_id -> politician player_id
+}
+
+interface ElectionResult {
+  tick: number;
+  tally: Record<string, number>;
+  winners: string[];
+  losers: string[];
+  turnout: number; // player ballots cast
 }
 
 interface Player {
@@ -103,13 +156,19 @@ interface Player {
   name: string;
   joined_tick: number;
   alive: boolean;
+  eliminated_tick?: number | null;
+  elimination_reason?: EliminationReason | null;
   hidden_stats: HiddenStats;
   visible_stats: VisibleStats;
   role_data: any;
   actions_pending: PlayerAction[];
   actions_history: { tick: number; actions: PlayerAction[] }[];
+  last_taken?: Record<string, number>; // tick each action type last ran, for cooldowns
+  fact_checks?: FactCheck[];           // what this player's investigations turned up
 }
 
+type EliminationReason = "revolution" | "lost_election" | "bankruptcy" | "emigration" | "corruption";
+
 interface HiddenStats {
   influence: number;
   reputation: number;
@@ -126,7 +185,21 @@ interface VisibleStats {
 interface PlayerAction {
   action_type: string;
   submitted_at: string;
-  params: Record<string, any>;
+  params: ActionParams; // checked and coerced against ACTION_REGISTRY at submit time
+  rejected?: string; // why the tick refused to run it, if it did
+  outcome?: ActionOutcome; // set once the tick has handled it
+}
+
+/** An action as its processor sees it: params typed by the action they belong to */
+type TypedAction<T extends ActionType = ActionType> = Omit<PlayerAction, "action_type" | "params"> & {
+  action_type: T;
+  params: ActionParamsMap[T];
+};
+
+interface ActionOutcome {
+  success: boolean;
+  reason?: string; // why it came to nothing
+  effect?: string; // what came of it, e.g. "earned some wages"
 }
 
 interface Modifier {
@@ -135,6 +208,23 @@ interface Modifier {
   value: number;
   min?: number;
   max?: number;
+  /** Law modifiers only; see LAW EFFECTS. Defaults to "target". */
+  mode?: ModifierMode;
+}
+
+/**
+ * once:     applied on activation, permanent, never reversed
+ * per_tick: applied every tick the law is in force, reversed on repeal
+ * target:   holds the variable at the operation's result, reversed on repeal
+ */
+type ModifierMode = "once" | "per_tick" | "target";
+
+/** What one law modifier is currently contributing to the world */
+interface LawEffect {
+  variable: string;
+  mode: ModifierMode;
+  /** Net change this law has made to the variable */
+  delta: number;
 }
 
 interface Law {
@@ -142,11 +232,31 @@ interface Law {
   proposed_by: string;
   proposed_tick: number;
   original_text: string;
-  status: "proposed" | "voting" | "active" | "repealed" | "rejected" | "invalidated";
+  /** Repeals and amendments are bills that act on target_law_id once passed */
+  kind: "law" | "repeal" | "amendment";
+  target_law_id: string | null;
+  category: LawCategory;
+  status: "proposed" | "voting" | "active" | "enacted" | "repealed" | "rejected" | "invalidated";
+  /** Weighted tally for the current stage; reset when the next stage opens */
   votes: { for: number; against: number; abstain: number };
+  stage: VotingStage | null;
+  voting_opened_tick: number | null;
+  voter_ids: string[];            // who has voted in the current stage
   judiciary_interpretation: JudiciaryInterpretation | null;
   activated_tick: number | null;
   repealed_tick: number | null;
+  /** Ticks after activation before the law lapses; null = indefinite */
+  sunset_ticks: number | null;
+  amended_tick: number | null;
+  /** Ledger parallel to implementation.modifiers */
+  effects: LawEffect[];
+  /** Fast-track fiscal bill: sets one budget figure when passed, without the Judiciary */
+  fiscal?: FiscalChange | null;
+}
+
+interface FiscalChange {
+  variable: "economy.tax_rate" | "economy.budget.spending";
+  value: number;
 }
 
 interface JudiciaryInterpretation {
@@ -171,6 +281,8 @@ interface GameEvent {
   duration_ticks: number | null;
   expires_tick: number | null;
   narrative_hook: string;
+  subject_player_ids?: string[]; // players the event is about, e.g. the exposed
+  leaked?: boolean;              // already handed to Media as a leak
 }
 
 interface TickLogEntry {
@@ -178,6 +290,7 @@ interface TickLogEntry {
   timestamp: string;
   actions_processed: number;
   actions_skipped: number;
+  action_order?: ActionOrder; // as run, so a replay can run it the same way
   events_applied: number;
   events_rejected: number;
   laws_activated: number;
@@ -188,8 +301,57 @@ interface TickLogEntry {
 
 interface MediaState {
   headlines: any[];
-  articles: any[];
+  articles: Article[];             // rolling, NEWS_ARCHIVE_TICKS deep
   rumors: any[];
+  archive?: ArchivedHeadline[];    // every headline still within NEWS_ARCHIVE_TICKS
+  rumor_archive?: ArchivedRumor[]; // likewise for rumors; never served
+  fact_checks?: PublicFactCheck[]; // debunks and amplifications since the last Media pass
+}
+
+interface ArchivedHeadline {
+  id: string;
+  tick: number;
+  text: string;
+  bias: string;
+  truth_score: number;             // never leaves the engine
+  source_event_id: string | null;
+}
+
+interface ArchivedRumor {
+  id: string;
+  tick: number;
+  text: string;
+  credibility: number;
+  truth_score: number | null;      // null when Media gave none
+}
+
+interface Article {
+  id: string;
+  tick: number;
+  headline_id: string;
+  body: string;
+  bias: string;
+  mentions_players: string[];
+}
+
+type TruthBand = "accurate" | "spun" | "distorted" | "fabricated" | "unverifiable";
+
+/** A story one player has looked into. Only they ever see the band. */
+interface FactCheck {
+  story_id: string;
+  kind: "headline" | "rumor";
+  text: string;
+  band: TruthBand;
+  tick: number;
+}
+
+/** A player's public call on a story, waiting for Media to pick it up */
+interface PublicFactCheck {
+  tick: number;
+  player_id: string;
+  stance: "debunk" | "amplify";
+  story_id: string;
+  text: string;
 }
 
 interface HistoryState {
@@ -223,13 +385,13 @@ interface JudiciaryOutput {
 interface MediaOutput {
   headlines: { text: string; bias: string; truth_score: number; source_event_id: string | null }[];
   articles: { headline_index: number; body: string; bias: string; mentions_players: string[] }[];
-  rumors: { text: string; credibility: number }[];
+  rumors: { text: string; credibility: number; truth_score?: number }[];
 }
 
 interface PoliticalReactionOutput {
   approval_delta: Record<string, number>;
   protest_prob: number;
-  movements: { action: "create" | "strengthen" | "dissolve"; name?: string; type?: string; id?: string; delta?: number }[];
+  movements: { action: "create" | "strengthen" | "dissolve"; name?: string; type?: string; id?: string; delta?: number; demands?: string[] }[];
   suppressed_warnings: string[];
 }
 
@@ -240,6 +402,24 @@ interface CrisisOutput {
   modifiers: Modifier[];
   narrative_hook: string;
   duration_ticks: number;
+  target_player_id?: string | null; // who a corruption_exposed crisis names
+}
+
+/** An exposure handed to Media. Consequences are already settled by the engine. */
+interface Leak {
+  event_id: string;
+  player_ids: string[];
+  player_names: string[];
+  description: string;
+  narrative_hook: string;
+}
+
+/** A debunk or amplification made in public, for Media to run with or ignore */
+interface FactCheckReport {
+  player_id: string;
+  player_name: string;
+  stance: "debunk" | "amplify";
+  story: string;
 }
 
 // AI system function signatures â€” implementations are external
@@ -248,7 +428,7 @@ type AISystem<TInput, TOutput> = (input: TInput) => Promise<TOutput>;
 interface AISystemRegistry {
   stateAnalyst: AISystem<{ state: WorldState; actions: PlayerAction[] }, StateAnalystOutput>;
   judiciary: AISystem<{ law: Law; state: WorldState }, JudiciaryOutput>;
-  media: AISystem<{ analyst: StateAnalystOutput; judiciary: JudiciaryOutput[]; state: WorldState }, MediaOutput>;
+  media: AISystem<{ analyst: StateAnalystOutput; judiciary: JudiciaryOutput[]; leaks: Leak[]; fact_checks: FactCheckReport[]; state: WorldState }, MediaOutput>;
   politicalReaction: AISystem<{ media: MediaOutput; analyst: StateAnalystOutput; state: WorldState }, PoliticalReactionOutput>;
   crisis: AISystem<{ analyst: StateAnalystOutput; political: PoliticalReactionOutput; state: WorldState }, CrisisOutput | null>;
   historian: AISystem<{ state: WorldState; tick_events: GameEvent[] }, any>;
@@ -270,6 +450,7 @@ const HARD_CONSTRAINTS: Record<string, { min: number; max: number }> = {
   "economy.market.price_index": { min: 0.01, max: 1000  },
   "economy.wage_index":      { min: 0.01,   max: 100    },
   "economy.budget.reserves": { min: -10000, max: 100000 },
+  "economy.budget.spending": { min: 0,      max: 1000   },
   "society.stability":       { min: 0,      max: 100    },
   "society.public_trust":    { min: 0,      max: 100    },
   "society.satisfaction":    { min: 0,      max: 100    },
@@ -287,6 +468,7 @@ const HARD_CONSTRAINTS: Record<string, { min: number; max: number }> = {
 // When values cross these thresholds, automatic events fire.
 
 interface ThresholdTrigger {
+  id: string;         // stable key for meta.trigger_cooldowns
   variable: string;
   condition: "above" | "below";
   value: number;
@@ -296,18 +478,233 @@ interface ThresholdTrigger {
 }
 
 const THRESHOLD_TRIGGERS: ThresholdTrigger[] = [
-  { variable: "economy.gdp",           condition: "below", value: 100,  event_type: "economic_crisis",  severity: 5, cooldown_ticks: 10 },
-  { variable: "economy.inflation",     condition: "above", value: 50,   event_type: "hyperinflation",   severity: 4, cooldown_ticks: 5  },
-  { variable: "economy.unemployment",  condition: "above", value: 25,   event_type: "protest",          severity: 3, cooldown_ticks: 3  },
-  { variable: "society.stability",     condition: "below", value: 20,   event_type: "revolution",       severity: 5, cooldown_ticks: 20 },
-  { variable: "society.stability",     condition: "above", value: 90,   event_type: "scandal",          severity: 2, cooldown_ticks: 5  }, // Crisis AI backup
-  { variable: "society.radicalization", condition: "above", value: 80,  event_type: "revolution",       severity: 4, cooldown_ticks: 15 },
-  { variable: "society.radicalization", condition: "above", value: 60,  event_type: "movement_formed",  severity: 2, cooldown_ticks: 5  },
-  { variable: "economy.budget.reserves", condition: "below", value: 0,  event_type: "budget_crisis",    severity: 3, cooldown_ticks: 5  },
+  { id: "gdp_collapse",          variable: "economy.gdp",           condition: "below", value: 100,  event_type: "economic_crisis",  severity: 5, cooldown_ticks: 10 },
+  { id: "inflation_runaway",     variable: "economy.inflation",     condition: "above", value: 50,   event_type: "hyperinflation",   severity: 4, cooldown_ticks: 5  },
+  { id: "mass_unemployment",     variable: "economy.unemployment",  condition: "above", value: 25,   event_type: "protest",          severity: 3, cooldown_ticks: 3  },
+  { id: "state_failure",         variable: "society.stability",     condition: "below", value: 20,   event_type: "revolution",       severity: 5, cooldown_ticks: 20 },
+  { id: "complacency",           variable: "society.stability",     condition: "above", value: 90,   event_type: "scandal",          severity: 2, cooldown_ticks: 5  }, // Crisis AI backup
+  { id: "radical_uprising",      variable: "society.radicalization", condition: "above", value: 80,  event_type: "revolution",       severity: 4, cooldown_ticks: 15 },
+  { id: "radical_mobilization",  variable: "society.radicalization", condition: "above", value: 60,  event_type: "movement_formed",  severity: 2, cooldown_ticks: 5  },
+  { id: "reserves_exhausted",    variable: "economy.budget.reserves", condition: "below", value: 0,  event_type: "budget_crisis",    severity: 3, cooldown_ticks: 5  },
+];
+
+// ============================================================================
+// ELECTION CALENDAR
+// ============================================================================
+// Politicians face the electorate every ELECTION_INTERVAL_TICKS. The last
+// CAMPAIGN_TICKS before a ballot are the campaign, when `campaign` and
+// `endorse` actions count.
+
+const ELECTION_INTERVAL_TICKS = 20;
+const CAMPAIGN_TICKS = 4;
+const NPC_ELECTORATE = 100; // notional non-player votes, split by approval
+
+// ============================================================================
+// LABOUR MARKET
+// ============================================================================
+// Player citizens are a small slice of the workforce. The rest is a notional
+// NPC labour force whose unemployment drifts with the economy.
+
+const NPC_LABOUR_FORCE = 20;    // NPC workers weighed against each player citizen
+const CAPACITY_PER_HIRE = 2;    // production capacity one worker adds
+
+// ============================================================================
+// GOODS MARKET
+// ============================================================================
+// Each firm sells its own stock at its own price, set as a markup on the
+// price index. Buyers favour cheap firms and reputable owners; whatever the
+// players do not buy, the NPC market splits the same way.
+
+const MIN_PRICE = 0.5;
+const MAX_PRICE = 3.0;
+const PRICE_ELASTICITY = 2;     // how sharply buyers punish a higher price than a rival's
+const INVENTORY_SPOILAGE = 0.05; // unsold stock lost each tick, as with market supply
+
+// ============================================================================
+// TAXES AND WELFARE
+// ============================================================================
+// Players pay tax_rate on what they earned this tick: wages for citizens,
+// takings less payroll for firms, minus whatever a firm evades. The players'
+// slice of the welfare budget goes to citizens who have fallen behind.
+
+const WELFARE_PLAYER_SHARE = 0.1;   // of welfare spending; the rest reaches the NPC population
+const WELFARE_WEALTH_LINE = 50;     // citizens below this wealth qualify
+const MAX_WELFARE_TRANSFER = 2;     // per citizen per tick, about two days' wages
+const MAX_JOB_OPENINGS = 20;
+
+// ============================================================================
+// VOTING RULES
+// ============================================================================
+// Set per server at creation. A stage with nobody eligible to vote in it is
+// skipped, so a bicameral server with no citizen players still legislates.
+
+const DEFAULT_VOTING_RULES: VotingRules = {
+  quorum: 0.3,
+  majority: 0.5,
+  supermajority: 0.66,
+  supermajority_categories: ["constitutional", "civil_rights"],
+  bicameral: true,
+  voting_window_ticks: 2,
+  influence_weight: 0.05,
+};
+
+const LAW_CATEGORIES: LawCategory[] = ["general", "fiscal", "civil_rights", "security", "constitutional"];
+
+// Checked in order; the first match classifies the law
+const LAW_CATEGORY_KEYWORDS: [LawCategory, RegExp][] = [
+  ["constitutional", /\b(constitution|election|term limit|judiciary|court|office holder)/i],
+  ["civil_rights", /\b(rights?|speech|assembly|press|protest|citizenship|privacy)\b/i],
+  ["security", /\b(police|army|military|emergency|curfew|border|enforce)/i],
+  ["fiscal", /\b(tax|budget|spend|revenue|tariff|welfare|subsid)/i],
 ];
 
-// Track cooldowns: event_type -> last triggered tick
-const triggerCooldowns = new Map<string, number>();
+/** Merge server-creation overrides onto the defaults, clamping to sane ranges */
+function normalizeVotingRules(input: any): VotingRules {
+  const d = DEFAULT_VOTING_RULES;
+  const num = (value: unknown, fallback: number, min: number, max: number) =>
+    typeof value === "number" && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+  return {
+    quorum: num(input?.quorum, d.quorum, 0, 1),
+    majority: num(input?.majority, d.majority, 0.5, 0.99),
+    supermajority: num(input?.supermajority, d.supermajority, 0.5, 1),
+    supermajority_categories: Array.isArray(input?.supermajority_categories)
+      ? input.supermajority_categories.filter((c: any) => LAW_CATEGORIES.includes(c))
+      : [...d.supermajority_categories],
+    bicameral: typeof input?.bicameral === "boolean" ? input.bicameral : d.bicameral,
+    voting_window_ticks: Math.floor(num(input?.voting_window_ticks, d.voting_window_ticks, 1, 10)),
+    influence_weight: num(input?.influence_weight, d.influence_weight, 0, 1),
+  };
+}
+
+// ============================================================================
+// FEAR AND LEGACY
+// ============================================================================
+// Fear is earned through enforcement and intimidation and fades without
+// fresh shows of force. Legacy is the Historian's verdict; it slows the
+// natural decay of influence and weighs most in the final standings.
+
+const FEAR_DECAY = 0.9;              // share of fear kept each tick
+const ENFORCEMENT_FEAR = 0.015;      // fear per unit of enforcement spending, per office holder
+const MAX_FEAR_SUPPRESSION = 0.5;    // most protest that fear of the government can silence
+const INFLUENCE_DECAY = 0.02;        // share of influence lost per tick at zero legacy
+const LEGACY_BLEND = 0.2;            // how fast historical_legacy follows the Historian
+
+// ============================================================================
+// INVESTIGATIONS
+// ============================================================================
+// Every corrupt player runs a seeded risk of exposure each tick. Enforcement
+// funding pays for investigators; a compliant tax base leaves evasion nowhere
+// to hide.
+
+const MIN_EXPOSABLE_CORRUPTION = 10;       // below this there is nothing to find
+const BASE_DETECTION = 0.02;               // per-tick chance at full corruption, unfunded
+const DETECTION_PER_ENFORCEMENT = 0.001;   // added per unit of enforcement spending
+const EXPOSURE_REPUTATION_LOSS = 15;
+
+// ============================================================================
+// ELIMINATION
+// ============================================================================
+// Players leave the game through revolution, defeat, bankruptcy, emigration
+// or exposure. They keep their id and token, watch as ghosts, and may rejoin
+// in any role once the cooldown has passed.
+
+const REJOIN_COOLDOWN_TICKS = 5;
+const EMIGRATION_PRESSURE = 95;     // economic_pressure at which a citizen looks abroad
+const EMIGRATION_TICKS = 3;         // consecutive ticks at that pressure before they go
+const MAX_ELECTION_DEFEATS = 2;     // consecutive defeats that end a political career
+
+// ============================================================================
+// MOVEMENTS
+// ============================================================================
+// Members raise demands and back a leader; the leader calls collective action.
+// Everything a movement does scales with its strength and its membership.
+
+const MAX_DEMANDS = 5;
+const MAX_DEMAND_LENGTH = 140;
+const MOVEMENT_ACTION_COOLDOWN = 3;  // ticks between one movement's collective actions
+const STRIKE_TICKS = 3;              // ticks a strike keeps a firm's capacity down
+const LEADER_INFLUENCE = 0.5;        // influence a leader gains each tick in charge
+
+// Citizens may found their own movements, if they have the standing and the funds
+const MOVEMENT_TYPES: Movement["type"][] = ["reform", "populist", "radical", "separatist", "labor", "business"];
+const FOUND_MIN_INFLUENCE = 10;
+const FOUND_COST = 25;
+const FOUNDED_STRENGTH = 0.1;        // AI-created movements start at 0.3
+const FOUNDING_DEMANDS = 3;
+const MAX_MOVEMENT_NAME = 60;
+
+// ============================================================================
+// ACTION ORDERING
+// ============================================================================
+// Actions run phase by phase: firms set terms, then work is done, then the
+// shops open, then movements organise, then politics. Within a phase players
+// go in a seeded shuffle drawn fresh each tick, so joining early buys nothing.
+
+type ActionPhase = "business" | "work" | "consumption" | "movements" | "politics";
+const ACTION_PHASES: ActionPhase[] = ["business", "work", "consumption", "movements", "politics"];
+const ORDER_SEED_OFFSET = 5000;      // seededRandom indices 5000 + phase * 200 + player
+
+// ============================================================================
+// NEWS ARCHIVE
+// ============================================================================
+// Headlines are replaced every tick, but the papers keep their back issues.
+
+const NEWS_ARCHIVE_TICKS = 50;       // same depth as tick_log
+const NEWS_PAGE_SIZE = 20;
+const MAX_NEWS_PAGE_SIZE = 50;
+
+// ============================================================================
+// PERCEPTION
+// ============================================================================
+// How clearly each player sees. Influence and a good name cut the noise; a
+// movement decides which papers its members read; business owners watch
+// markets closely and politics loosely; lobbied politicians are told what
+// they want to hear.
+
+const MIN_CLARITY = 0.4;             // noise never falls below 40% of baseline
+const BUSINESS_MARKET_NOISE = 0.5;   // business owners: sharper market signals...
+const BUSINESS_POLITICS_NOISE = 1.5; // ...and hazier political ones
+const RUMOR_REACH = 0.6;             // chance a rumor reaches a player with no standing
+const OFF_DIET_KEEP = 0.5;           // chance a movement member still sees an off-message headline
+const FLATTERY_PER_LOBBY = 0.2;      // approval points added per unit of lobby money received
+const MAX_FLATTERY = 15;
+
+// The outlets each kind of movement trusts
+const MEDIA_DIET: Record<Movement["type"], string[]> = {
+  reform: ["establishment", "neutral"],
+  populist: ["populist"],
+  radical: ["left", "populist"],
+  separatist: ["populist"],
+  labor: ["left"],
+  business: ["right", "establishment"],
+};
+
+// ============================================================================
+// FACT-CHECKING
+// ============================================================================
+// Any player can dig into a story, with whatever their role has to spend:
+// time, money or favours. What they find is theirs alone until they go public.
+// A public call that turns out right builds trust in the news; a wrong one
+// wears it down faster.
+
+const FACT_CHECK_SEED_OFFSET = 7000;       // seededRandom indices 7000 + player, by sorted id
+const INVESTIGATE_CHANCE: Record<Player["role"], number> = {
+  citizen: 0.35,
+  business_owner: 0.5,                     // can pay for the research
+  politician: 0.45,                        // has staff, and sources
+};
+// Each role pays for an investigation with what it has
+const INVESTIGATE_COST: Record<Player["role"], ActionCost> = {
+  citizen: { wealth: 3 },
+  business_owner: { wealth: 10 },
+  politician: { influence: 1 },
+};
+const INVESTIGATE_INFLUENCE_BONUS = 0.005; // added chance per point of influence
+const MAX_INVESTIGATE_CHANCE = 0.9;
+const FACT_CHECK_TRUST = 1.0;              // public_trust gained by a right call, scaled by influence
+const WRONG_CALL_PENALTY = 1.5;            // ...and lost by a wrong one, times this
+const TRUE_ENOUGH = 0.5;                   // truth_score at which a story counts as true
 
 // ============================================================================
 // UTILITY FUNCTIONS
@@ -360,6 +757,122 @@ function hashState(state: WorldState): string {
     .digest("hex");
 }
 
+const MAX_SUNSET_TICKS = 500;
+
+/**
+ * Sunset from an explicit param, else from clauses like "expires after 10 ticks",
+ * "for 5 ticks" or "sunset: 8". Null means the law never lapses.
+ */
+function parseSunsetTicks(text: string, param?: number): number | null {
+  let ticks: number | null = null;
+  if (param !== undefined && Number.isFinite(param)) {
+    ticks = param;
+  } else {
+    const match = text.match(/(?:expires?|lapses?|sunsets?)\D{0,20}?(\d+)\s*ticks?/i)
+      ?? text.match(/\bfor\s+(\d+)\s+ticks?\b/i)
+      ?? text.match(/\bsunset(?:\s+clause)?\s*[:=]?\s*(\d+)/i);
+    if (match) ticks = parseInt(match[1], 10);
+  }
+  if (ticks === null || ticks < 1) return null;
+  return Math.min(MAX_SUNSET_TICKS, Math.floor(ticks));
+}
+
+/** An explicit, valid category param wins; otherwise classify by keywords */
+function classifyLaw(text: string, param?: "auto" | LawCategory): LawCategory {
+  if (param && param !== "auto") return param;
+  return LAW_CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? "general";
+}
+
+function votingRules(state: WorldState): VotingRules {
+  return state.government.voting_rules ?? DEFAULT_VOTING_RULES;
+}
+
+function voteWeight(state: WorldState, player: Player): number {
+  return 1 + player.hidden_stats.influence * votingRules(state).influence_weight;
+}
+
+function canVoteInStage(player: Player, stage: VotingStage): boolean {
+  if (!player.alive) return false;
+  if (stage === "politicians") return isInOffice(player);
+  if (stage === "citizens") return player.role === "citizen";
+  return player.role === "citizen" || isInOffice(player);
+}
+
+/** One weighted vote per player per stage. Returns false if the vote is not allowed. */
+function castVote(state: WorldState, player: Player, law: Law, vote: string): boolean {
+  if (!law.stage || !canVoteInStage(player, law.stage)) return false;
+  law.voter_ids ??= [];
+  if (law.voter_ids.includes(player.id)) return false;
+
+  const weight = voteWeight(state, player);
+  if (vote === "for") law.votes.for += weight;
+  else if (vote === "against") law.votes.against += weight;
+  else law.votes.abstain += weight;
+  law.voter_ids.push(player.id);
+  return true;
+}
+
+/** Plain numeric bills, clamped to HARD_CONSTRAINTS when drafted */
+function draftFiscalBill(state: WorldState, player: Player, variable: FiscalChange["variable"], value: number, describe: (v: number) => string): boolean {
+  if (!Number.isFinite(value)) return false;
+  const clamped = Math.round(clampToConstraints(variable, value) * 100) / 100;
+  const law = draftLaw(state, player, describe(clamped), "law", null, null, "fiscal");
+  law.fiscal = { variable, value: clamped };
+  return true;
+}
+
+/** Shared by propose_law, propose_repeal and propose_amendment */
+function draftLaw(
+  state: WorldState,
+  player: Player,
+  text: string,
+  kind: Law["kind"],
+  targetLawId: string | null,
+  sunsetTicks: number | null,
+  category: LawCategory,
+): Law {
+  const law: Law = {
+    id: seededUUID(state.meta.seed, state.laws.length),
+    proposed_by: player.id,
+    proposed_tick: state.meta.tick,
+    original_text: text.slice(0, 2000), // enforce max length
+    kind,
+    target_law_id: targetLawId,
+    category,
+    status: "proposed",
+    votes: { for: 0, against: 0, abstain: 0 },
+    stage: null,
+    voting_opened_tick: null,
+    voter_ids: [],
+    judiciary_interpretation: null,
+    activated_tick: null,
+    repealed_tick: null,
+    sunset_ticks: sunsetTicks,
+    amended_tick: null,
+    effects: [],
+  };
+  state.laws.push(law);
+
+  const prd = player.role_data.politician;
+  if (prd) prd.laws_proposed++;
+
+  player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 3);
+  return law;
+}
+
+/** Politicians hold office until an election unseats them */
+function isInOffice(player: Player): boolean {
+  return player.role === "politician" && player.role_data?.politician?.in_office !== false;
+}
+
+/** Share of protest silenced by fear of the most feared office holder */
+function fearSuppression(state: WorldState): number {
+  const fear = Object.values(state.players)
+    .filter(p => p.alive && isInOffice(p))
+    .reduce((max, p) => Math.max(max, p.hidden_stats.fear), 0);
+  return Math.min(MAX_FEAR_SUPPRESSION, fear / 200);
+}
+
 /** Generate UUID v4-ish from seed */
 function seededUUID(seed: number, counter: number): string {
   const hash = createHash("sha256")
@@ -476,75 +989,123 @@ function applyModifiers(state: WorldState, modifiers: Modifier[], source: string
 // ============================================================================
 // ACTION PROCESSORS
 // ============================================================================
-// Each player action type has a handler that translates it into state changes.
+// Each player action type has a handler that translates it into state changes
+// and reports how it went, in terms coarse enough to show the player.
 
-type ActionProcessor = (state: WorldState, player: Player, action: PlayerAction) => void;
+type ActionProcessor<T extends ActionType = ActionType> = (state: WorldState, player: Player, action: TypedAction<T>) => ActionOutcome;
 
-const ACTION_PROCESSORS: Record<string, ActionProcessor> = {
+const actionDone = (effect: string): ActionOutcome => ({ success: true, effect });
+const actionFailed = (reason: string): ActionOutcome => ({ success: false, reason });
+
+const ACTION_PROCESSORS: { [T in ActionType]: ActionProcessor<T> } = {
 
   // --- CITIZEN ACTIONS ---
 
   work: (state, player, action) => {
-    if (player.role !== "citizen") return;
+    if (player.role !== "citizen") return actionFailed("not open to your role");
     const rd = player.role_data.citizen;
     if (!rd || !rd.employer_id) {
       // Unemployed â€” no income, increase pressure
       rd.economic_pressure = Math.min(100, (rd?.economic_pressure ?? 30) + 5);
-      return;
+      return actionFailed("you have no job to go to");
     }
     // Earn wage
     const wage = state.economy.wage_index * (state.players[rd.employer_id]?.role_data?.business_owner?.wage_level ?? 1);
     player.visible_stats.wealth += wage;
+    rd.taxable_income = (rd.taxable_income ?? 0) + wage;
     // Slight satisfaction from working
     if (rd) rd.satisfaction = Math.min(100, rd.satisfaction + 1);
     // Contribute to GDP
     state.economy.gdp += wage * 0.01;
+    return actionDone("earned some wages");
+  },
+
+  apply_job: (state, player, action) => {
+    if (player.role !== "citizen") return actionFailed("not open to your role");
+    const rd = player.role_data.citizen;
+    if (!rd || rd.employer_id) return actionFailed("you already have a job");
+
+    // Specific firm, or any firm with an opening. Matched at end of action phase.
+    const businessId = action.params.business_id;
+    if (businessId) {
+      const target = state.players[businessId];
+      if (!target || !target.alive || target.role !== "business_owner") return actionFailed("that business is not hiring");
+      rd.job_application = businessId;
+    } else {
+      rd.job_application = "any";
+    }
+    return actionDone("application sent");
+  },
+
+  quit_job: (state, player, action) => {
+    if (player.role !== "citizen") return actionFailed("not open to your role");
+    const rd = player.role_data.citizen;
+    if (!rd) return actionFailed("not open to your role");
+
+    rd.job_application = null;
+    if (!rd.employer_id) return actionFailed("you have no job");
+
+    const employer = state.players[rd.employer_id]?.role_data?.business_owner;
+    if (employer) {
+      employer.employees = Math.max(0, employer.employees - 1);
+      employer.production_capacity = Math.max(0, employer.production_capacity - CAPACITY_PER_HIRE);
+    }
+    rd.employer_id = null;
+    // Walking out costs a little security
+    rd.economic_pressure = Math.min(100, rd.economic_pressure + 3);
+    return actionDone("left your job");
   },
 
   consume: (state, player, action) => {
-    if (player.role !== "citizen") return;
-    const amount = Math.min(player.visible_stats.wealth * 0.3, state.economy.market.supply * 0.01);
-    if (amount <= 0) {
+    if (player.role !== "citizen") return actionFailed("not open to your role");
+    const budget = Math.min(player.visible_stats.wealth * 0.3, state.economy.market.supply * 0.01);
+    if (budget <= 0) {
       // Can't afford goods â€” pressure rises
       const rd = player.role_data.citizen;
       if (rd) rd.economic_pressure = Math.min(100, rd.economic_pressure + 8);
-      return;
+      return actionFailed("you could not afford anything");
     }
+
+    // Buy from the chosen firm, or the most appealing one in stock; NPC firms cover the rest
+    const chosen = state.players[action.params.business_id ?? ""];
+    const firm = chosen && inStock(chosen) ? chosen : stockedFirms(state).sort((a, b) => firmAppeal(b) - firmAppeal(a))[0];
+    const amount = firm
+      ? sellGoods(state, firm, Math.min(budget / unitPrice(state, firm), firm.role_data.business_owner.inventory))
+      : budget;
+
     player.visible_stats.wealth -= amount;
     state.economy.market.demand += amount * 0.1;
     state.economy.market.supply -= amount * 0.05;
     // Satisfaction from consumption
     const rd = player.role_data.citizen;
     if (rd) rd.satisfaction = Math.min(100, rd.satisfaction + 3);
+    return actionDone("bought some goods");
   },
 
   vote_law: (state, player, action) => {
-    if (player.role !== "citizen") return;
-    const lawId = action.params?.law_id;
-    const vote = action.params?.vote; // "for" | "against" | "abstain"
-    if (!lawId || !vote) return;
+    if (player.role !== "citizen") return actionFailed("not open to your role");
+    const lawId = action.params.law_id;
+    const vote = action.params.vote; // "for" | "against" | "abstain"
+    if (!lawId || !vote) return actionFailed("no law or vote given");
 
     const law = state.laws.find(l => l.id === lawId && l.status === "voting");
-    if (!law) return;
-
-    if (vote === "for") law.votes.for++;
-    else if (vote === "against") law.votes.against++;
-    else law.votes.abstain++;
+    if (!law || !castVote(state, player, law, vote)) return actionFailed("your vote was not counted");
 
     const rd = player.role_data.citizen;
     if (rd) rd.voted_this_tick = true;
 
     // Voting increases influence slightly
     player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 0.5);
+    return actionDone("vote cast");
   },
 
   join_movement: (state, player, action) => {
-    if (player.role !== "citizen") return;
-    const movementId = action.params?.movement_id;
-    if (!movementId) return;
+    if (player.role !== "citizen") return actionFailed("not open to your role");
+    const movementId = action.params.movement_id;
+    if (!movementId) return actionFailed("no movement given");
 
     const movement = state.society.movements.find(m => m.id === movementId);
-    if (!movement) return;
+    if (!movement) return actionFailed("no such movement");
 
     if (!movement.member_player_ids.includes(player.id)) {
       movement.member_player_ids.push(player.id);
@@ -558,26 +1119,130 @@ const ACTION_PROCESSORS: Record<string, ActionProcessor> = {
     }
     // Any movement increases influence
     player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 2);
+    return actionDone("joined the movement");
+  },
+
+  endorse: (state, player, action) => {
+    if (player.role !== "citizen" && player.role !== "business_owner") return actionFailed("not open to your role");
+    const campaign = state.government.campaign;
+    const candidateId = action.params.politician_id;
+    if (!campaign || !candidateId || !campaign.candidates[candidateId]) return actionFailed("no such candidate in the campaign");
+
+    // Last endorsement of the campaign wins
+    campaign.endorsements[player.id] = candidateId;
+
+    // Public backing lends the candidate some of the endorser's weight
+    campaign.candidates[candidateId].support += 0.5 + player.hidden_stats.influence * 0.05;
+    return actionDone("endorsement noted");
   },
 
   leave_movement: (state, player, action) => {
-    if (player.role !== "citizen") return;
+    if (player.role !== "citizen") return actionFailed("not open to your role");
     const movementId = player.visible_stats.movement_id;
-    if (!movementId) return;
+    if (!movementId) return actionFailed("you are not in a movement");
 
     const movement = state.society.movements.find(m => m.id === movementId);
     if (movement) {
       movement.member_player_ids = movement.member_player_ids.filter(id => id !== player.id);
+      if (movement.leader_backing) delete movement.leader_backing[player.id];
+      if (movement.leader_id === player.id) movement.leader_id = null;
     }
     player.visible_stats.movement_id = null;
+    return actionDone("left the movement");
+  },
+
+  found_movement: (state, player, action) => {
+    if (player.role !== "citizen") return actionFailed("not open to your role");
+    if (player.hidden_stats.influence < FOUND_MIN_INFLUENCE) return actionFailed("you lack the standing");
+
+    const name = action.params.name.trim().slice(0, MAX_MOVEMENT_NAME);
+    const type = action.params.type;
+    if (!name || !MOVEMENT_TYPES.includes(type)) return actionFailed("a movement needs a name and a cause");
+    if (state.society.movements.some(m => m.name.toLowerCase() === name.toLowerCase())) return actionFailed("that name is taken");
+
+    // Demands arrive one per line from a text box
+    const demands = (action.params.demands ?? "").split("\n")
+      .filter(d => d.trim())
+      .map(d => d.trim().slice(0, MAX_DEMAND_LENGTH))
+      .slice(0, FOUNDING_DEMANDS);
+
+    // A founder leaves their old movement to lead the new one
+    if (player.visible_stats.movement_id) {
+      ACTION_PROCESSORS.leave_movement(state, player, { ...action, action_type: "leave_movement", params: {} });
+    }
+
+    const movement: Movement = {
+      id: newMovementId(state),
+      name,
+      type,
+      strength: FOUNDED_STRENGTH,
+      demands,
+      member_player_ids: [player.id],
+      created_tick: state.meta.tick,
+      founded_by: player.id,
+      leader_id: player.id,
+      leader_backing: { [player.id]: player.id },
+      last_action: null,
+    };
+    state.society.movements.push(movement);
+    player.visible_stats.movement_id = movement.id;
+    player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 2);
+    if (type === "radical" && player.role_data.citizen) {
+      player.role_data.citizen.radicalization = Math.min(100, player.role_data.citizen.radicalization + 10);
+    }
+    return actionDone("movement founded");
+  },
+
+  raise_demand: (state, player, action) => {
+    const movement = movementOf(state, player);
+    const text = action.params.text;
+    if (!movement || !text.trim()) return actionFailed("the demand could not be raised");
+
+    const demand = text.trim().slice(0, MAX_DEMAND_LENGTH);
+    if (movement.demands.some(d => d.toLowerCase() === demand.toLowerCase())) return actionFailed("that demand is already raised");
+
+    // Newest demands push out the oldest
+    movement.demands.push(demand);
+    if (movement.demands.length > MAX_DEMANDS) movement.demands.shift();
+    return actionDone("demand raised");
+  },
+
+  back_leader: (state, player, action) => {
+    const movement = movementOf(state, player);
+    const candidateId = action.params.player_id;
+    if (!movement || !movement.member_player_ids.includes(candidateId)) return actionFailed("they are not in your movement");
+
+    // Counted at the end of the action phase; last backing of the tick wins
+    (movement.leader_backing ??= {})[player.id] = candidateId;
+    return actionDone("backing noted");
+  },
+
+  movement_action: (state, player, action) => {
+    const movement = movementOf(state, player);
+    if (!movement || movement.leader_id !== player.id) return actionFailed("you do not lead a movement");
+
+    const kind = action.params.kind;
+    const run = COLLECTIVE_ACTIONS[kind];
+    if (!run) return actionFailed("no such collective action");
+
+    const last = movement.last_action;
+    if (last && state.meta.tick - last.tick < MOVEMENT_ACTION_COOLDOWN) return actionFailed("your movement acted too recently");
+
+    // Strikes and boycotts may single out one firm; otherwise they hit every employer or the whole market
+    const target = state.players[action.params.business_id ?? ""];
+    const firm = target && target.alive && target.role === "business_owner" ? target : null;
+
+    run(state, movement, firm);
+    movement.last_action = { kind, tick: state.meta.tick, target_id: firm?.id ?? null };
+    return actionDone(`${kind} called`);
   },
 
   // --- BUSINESS OWNER ACTIONS ---
 
   produce: (state, player, action) => {
-    if (player.role !== "business_owner") return;
+    if (player.role !== "business_owner") return actionFailed("not open to your role");
     const rd = player.role_data.business_owner;
-    if (!rd) return;
+    if (!rd) return actionFailed("not open to your role");
 
     // Check for strike
     if (rd.strike_risk > 0.8) {
@@ -589,23 +1254,51 @@ const ACTION_PROCESSORS: Record<string, ActionProcessor> = {
     state.economy.market.supply += output;
     state.economy.gdp += output * 0.1;
 
-    // Revenue from production
-    const revenue = output * state.economy.market.price_index;
+    // Goods go into stock and earn only when sold (see clearMarket)
+    rd.inventory = (rd.inventory ?? 0) + output;
     const costs = rd.employees * rd.wage_level * state.economy.wage_index;
-    const profit = revenue - costs;
-    player.visible_stats.wealth += Math.max(0, profit);
+    // Payroll is owed whether or not the goods sell; losses can bankrupt the firm
+    player.visible_stats.wealth -= costs;
+    rd.taxable_income = (rd.taxable_income ?? 0) - costs;
 
     // Influence grows with production
     player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 1);
+    return actionDone("goods produced");
+  },
+
+  post_jobs: (state, player, action) => {
+    if (player.role !== "business_owner") return actionFailed("not open to your role");
+    const rd = player.role_data.business_owner;
+    if (!rd) return actionFailed("not open to your role");
+
+    const slots = action.params.slots;
+    if (!Number.isFinite(slots) || slots < 0) return actionFailed("invalid number of slots");
+
+    // Replaces the current posting; 0 withdraws it
+    rd.job_openings = Math.min(MAX_JOB_OPENINGS, Math.floor(slots));
+    return actionDone("job posting updated");
+  },
+
+  set_price: (state, player, action) => {
+    if (player.role !== "business_owner") return actionFailed("not open to your role");
+    const rd = player.role_data.business_owner;
+    if (!rd) return actionFailed("not open to your role");
+
+    const price = action.params.price;
+    if (!Number.isFinite(price)) return actionFailed("invalid price");
+
+    // A markup on the price index: 1.0 sells at the going rate
+    rd.price = Math.max(MIN_PRICE, Math.min(MAX_PRICE, price));
+    return actionDone("price changed");
   },
 
   set_wages: (state, player, action) => {
-    if (player.role !== "business_owner") return;
+    if (player.role !== "business_owner") return actionFailed("not open to your role");
     const rd = player.role_data.business_owner;
-    if (!rd) return;
+    if (!rd) return actionFailed("not open to your role");
 
-    const newWage = action.params?.wage_level;
-    if (typeof newWage !== "number" || newWage < 0) return;
+    const newWage = action.params.wage_level;
+    if (!Number.isFinite(newWage) || newWage < 0) return actionFailed("invalid wage");
 
     const oldWage = rd.wage_level;
     rd.wage_level = Math.max(0.1, Math.min(10, newWage)); // hard limits on wage setting
@@ -619,16 +1312,17 @@ const ACTION_PROCESSORS: Record<string, ActionProcessor> = {
 
     // Wage changes affect global index slightly
     state.economy.wage_index += (rd.wage_level - oldWage) * 0.01;
+    return actionDone("wages changed");
   },
 
   lobby: (state, player, action) => {
-    if (player.role !== "business_owner") return;
-    const targetId = action.params?.politician_id;
-    const amount = action.params?.amount ?? 10;
-    if (!targetId) return;
+    if (player.role !== "business_owner") return actionFailed("not open to your role");
+    const targetId = action.params.politician_id;
+    const amount = action.params.amount ?? 10;
+    if (!targetId) return actionFailed("no politician given");
 
     const target = state.players[targetId];
-    if (!target || target.role !== "politician") return;
+    if (!target || target.role !== "politician") return actionFailed("no such politician");
 
     const rd = player.role_data.business_owner;
     if (rd) rd.lobby_target = targetId;
@@ -649,107 +1343,131 @@ const ACTION_PROCESSORS: Record<string, ActionProcessor> = {
     player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 3);
     // But also corruption
     player.hidden_stats.corruption = Math.min(100, player.hidden_stats.corruption + 2);
+    return actionDone("lobbying received");
   },
 
   evade_taxes: (state, player, action) => {
-    if (player.role !== "business_owner") return;
+    if (player.role !== "business_owner") return actionFailed("not open to your role");
     const rd = player.role_data.business_owner;
-    if (!rd) return;
+    if (!rd) return actionFailed("not open to your role");
 
+    // Share of declared income hidden from the fiscal pass
     rd.tax_evasion = Math.min(1, rd.tax_evasion + 0.2);
     // Reduce global compliance
     state.economy.tax_compliance = Math.max(0, state.economy.tax_compliance - 0.02);
     // Increase corruption
     player.hidden_stats.corruption = Math.min(100, player.hidden_stats.corruption + 5);
-    // Keep more wealth
-    player.visible_stats.wealth += state.economy.tax_rate * 0.01 * player.visible_stats.wealth * 0.1;
+    return actionDone("books adjusted");
   },
 
   comply_taxes: (state, player, action) => {
-    if (player.role !== "business_owner") return;
+    if (player.role !== "business_owner") return actionFailed("not open to your role");
     const rd = player.role_data.business_owner;
-    if (!rd) return;
+    if (!rd) return actionFailed("not open to your role");
 
     rd.tax_evasion = Math.max(0, rd.tax_evasion - 0.3);
     // Improve compliance
     state.economy.tax_compliance = Math.min(1, state.economy.tax_compliance + 0.01);
     // Reduce corruption
     player.hidden_stats.corruption = Math.max(0, player.hidden_stats.corruption - 2);
-    // Pay taxes â€” lose wealth
-    player.visible_stats.wealth -= state.economy.tax_rate * 0.01 * player.visible_stats.wealth * 0.15;
+    return actionDone("books cleaned up");
   },
 
   // --- POLITICIAN ACTIONS ---
 
   propose_law: (state, player, action) => {
-    if (player.role !== "politician") return;
-    const text = action.params?.text;
-    if (!text || typeof text !== "string") return;
-
-    const law: Law = {
-      id: seededUUID(state.meta.seed, state.laws.length),
-      proposed_by: player.id,
-      proposed_tick: state.meta.tick,
-      original_text: text.slice(0, 2000), // enforce max length
-      status: "proposed",
-      votes: { for: 0, against: 0, abstain: 0 },
-      judiciary_interpretation: null,
-      activated_tick: null,
-      repealed_tick: null,
-    };
-    state.laws.push(law);
+    if (!isInOffice(player)) return actionFailed("you do not hold office");
+    const text = action.params.text;
+    if (!text) return actionFailed("the bill has no text");
+
+    draftLaw(
+      state, player, text, "law", null,
+      parseSunsetTicks(text, action.params.sunset_ticks),
+      classifyLaw(text, action.params.category),
+    );
+    return actionDone("bill filed");
+  },
 
-    const prd = player.role_data.politician;
-    if (prd) prd.laws_proposed++;
+  propose_repeal: (state, player, action) => {
+    if (!isInOffice(player)) return actionFailed("you do not hold office");
+    const target = state.laws.find(l => l.id === action.params.law_id && l.status === "active");
+    if (!target) return actionFailed("that law is not in force");
 
-    player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 3);
+    const reason = action.params.text ?? "";
+    const text = `Repeal: ${target.original_text.slice(0, 200)}${reason ? `\n\n${reason}` : ""}`;
+    draftLaw(state, player, text, "repeal", target.id, null, target.category ?? "general");
+    return actionDone("repeal filed");
+  },
+
+  propose_amendment: (state, player, action) => {
+    if (!isInOffice(player)) return actionFailed("you do not hold office");
+    const target = state.laws.find(l => l.id === action.params.law_id && l.status === "active");
+    const text = action.params.text;
+    if (!target || !text) return actionFailed("the amendment has no law or no text");
+
+    // The amendment text replaces the target's text when passed
+    draftLaw(
+      state, player, text, "amendment", target.id,
+      parseSunsetTicks(text, action.params.sunset_ticks),
+      target.category ?? "general",
+    );
+    return actionDone("amendment filed");
+  },
+
+  set_tax_rate_proposal: (state, player, action) => {
+    if (!isInOffice(player)) return actionFailed("you do not hold office");
+    const filed = draftFiscalBill(state, player, "economy.tax_rate", action.params.rate, v => `Set the tax rate to ${v}%.`);
+    return filed ? actionDone("bill filed") : actionFailed("no rate given");
+  },
+
+  set_spending_level: (state, player, action) => {
+    if (!isInOffice(player)) return actionFailed("you do not hold office");
+    const filed = draftFiscalBill(state, player, "economy.budget.spending", action.params.spending, v => `Set government spending to ${v} per tick.`);
+    return filed ? actionDone("bill filed") : actionFailed("no spending level given");
   },
 
   vote_law_politician: (state, player, action) => {
-    if (player.role !== "politician") return;
-    const lawId = action.params?.law_id;
-    const vote = action.params?.vote;
-    if (!lawId || !vote) return;
+    if (!isInOffice(player)) return actionFailed("you do not hold office");
+    const lawId = action.params.law_id;
+    const vote = action.params.vote;
+    if (!lawId || !vote) return actionFailed("no law or vote given");
 
     const law = state.laws.find(l => l.id === lawId && l.status === "voting");
-    if (!law) return;
+    if (!law) return actionFailed("that law is not open for a vote");
 
-    // Politician votes count more heavily
-    const weight = 3;
-    if (vote === "for") law.votes.for += weight;
-    else if (vote === "against") law.votes.against += weight;
-    else law.votes.abstain += weight;
+    if (!castVote(state, player, law, vote)) return actionFailed("your vote was not counted");
+    return actionDone("vote cast");
   },
 
   allocate_budget: (state, player, action) => {
-    if (player.role !== "politician") return;
-    const allocation = action.params?.allocation;
-    if (!allocation || typeof allocation !== "object") return;
+    if (player.role !== "politician") return actionFailed("not open to your role");
+    const allocation = action.params;
 
     // Validate: fractions must sum to ~1.0
-    const keys = ["welfare", "infrastructure", "enforcement", "education", "discretionary"];
+    const keys: (keyof ActionParamsMap["allocate_budget"])[] = ["welfare", "infrastructure", "enforcement", "education", "discretionary"];
     let sum = 0;
     for (const key of keys) {
       const val = allocation[key];
-      if (typeof val !== "number" || val < 0 || val > 1) return;
+      if (typeof val !== "number" || val < 0 || val > 1) return actionFailed("the allocation does not add up");
       sum += val;
     }
-    if (Math.abs(sum - 1.0) > 0.01) return; // must sum to 1.0 Â± tolerance
+    if (Math.abs(sum - 1.0) > 0.01) return actionFailed("the allocation does not add up"); // must sum to 1.0 Â± tolerance
 
     for (const key of keys) {
       state.government.budget_allocation[key] = allocation[key];
     }
 
     player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 2);
+    return actionDone("budget reallocated");
   },
 
   publish_statement: (state, player, action) => {
-    if (player.role !== "politician") return;
-    const text = action.params?.text;
-    if (!text || typeof text !== "string") return;
+    if (player.role !== "politician") return actionFailed("not open to your role");
+    const text = action.params.text;
+    if (!text) return actionFailed("the statement has no text");
 
     const prd = player.role_data.politician;
-    if (!prd) return;
+    if (!prd) return actionFailed("not open to your role");
 
     prd.public_statements.push({
       tick: state.meta.tick,
@@ -759,61 +1477,638 @@ const ACTION_PROCESSORS: Record<string, ActionProcessor> = {
     // Statements increase reputation and influence
     player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 1);
     player.hidden_stats.reputation += 0.5;
+    return actionDone("statement published");
   },
-};
 
-// ============================================================================
-// ECONOMIC AUTO-CALCULATIONS
-// ============================================================================
-// These run every tick regardless of player actions.
+  campaign: (state, player, action) => {
+    if (player.role !== "politician") return actionFailed("not open to your role");
+    const campaign = state.government.campaign;
+    if (!campaign) return actionFailed("no campaign is under way");
 
-function recalculateEconomics(state: WorldState): void {
-  const econ = state.economy;
-  const soc = state.society;
-  const gov = state.government;
+    const prd = player.role_data.politician;
+    if (!prd) return actionFailed("not open to your role");
+
+    // Late entrants can still get on the ballot
+    const candidacy = campaign.candidates[player.id] ??= { support: 1 };
+
+    // Campaigning costs money; spending buys support
+    const spend = Math.min(player.visible_stats.wealth * 0.1, 10);
+    player.visible_stats.wealth -= spend;
+    candidacy.support += 1 + spend * 0.1 + player.hidden_stats.influence * 0.05;
+
+    // Campaign messages go on the public record for Media AI
+    const message = action.params.message;
+    if (message?.trim()) {
+      prd.public_statements.push({
+        tick: state.meta.tick,
+        text: message.slice(0, 500),
+      });
+    }
+    return actionDone("campaigned");
+  },
 
-  // --- Price index driven by supply/demand ---
-  if (econ.market.supply > 0) {
-    const ratio = econ.market.demand / econ.market.supply;
-    // Price moves toward demand/supply ratio, with inertia
-    econ.market.price_index = econ.market.price_index * 0.8 + ratio * 0.2;
-    econ.market.price_index = clampToConstraints("economy.market.price_index", econ.market.price_index);
-  }
+  // Office holders lean on opponents with the state; business owners with money
+  intimidate: (state, player, action) => {
+    if (!isInOffice(player) && player.role !== "business_owner") return actionFailed("not open to your role");
+    const target = state.players[action.params.player_id];
+    if (!target || !target.alive || target.id === player.id) return actionFailed("no such target");
+
+    const cost = Math.min(player.visible_stats.wealth * 0.1, 10);
+    player.visible_stats.wealth -= cost;
+
+    // A name that is already feared carries further
+    const pressure = 1 + player.hidden_stats.fear / 50;
+    player.hidden_stats.fear = Math.min(100, player.hidden_stats.fear + 5);
+    player.hidden_stats.reputation = Math.max(-100, player.hidden_stats.reputation - 2);
+
+    // The target backs down in public...
+    target.hidden_stats.influence = Math.max(0, target.hidden_stats.influence - 2 * pressure);
+    const movement = state.society.movements.find(m => m.id === target.visible_stats.movement_id);
+    if (movement) movement.strength = Math.max(0, movement.strength - 0.03 * pressure);
+
+    // ...and resents it in private
+    const rd = target.role_data.citizen;
+    if (rd) rd.radicalization = Math.min(100, rd.radicalization + 3);
+    return actionDone("pressure applied");
+  },
 
-  // --- Shortage detection ---
-  econ.market.shortage = econ.market.demand > econ.market.supply * 1.2;
+  // --- ANY ROLE ---
 
-  // --- Inflation driven by price changes and budget deficit ---
-  const priceInflation = (econ.market.price_index - 1.0) * 10;
-  const deficitInflation = econ.budget.deficit > 0 ? econ.budget.deficit * 0.01 : 0;
-  econ.inflation = econ.inflation * 0.7 + (priceInflation + deficitInflation) * 0.3;
-  econ.inflation = clampToConstraints("economy.inflation", econ.inflation);
+  investigate: (state, player, action) => {
+    const story = findStory(state, action.params.story_id);
+    if (!story) return actionFailed("no such story is going around");
 
-  // --- GDP growth/decline ---
-  const previousGdp = econ.gdp;
-  // Production adds, inflation erodes, unemployment drags
-  const growthFactor = 1 + (0.02 - econ.inflation * 0.001 - econ.unemployment * 0.001);
-  econ.gdp *= growthFactor;
-  econ.gdp = clampToConstraints("economy.gdp", econ.gdp);
-  econ.gdp_delta = econ.gdp - previousGdp;
+    const chance = Math.min(
+      MAX_INVESTIGATE_CHANCE,
+      INVESTIGATE_CHANCE[player.role] + player.hidden_stats.influence * INVESTIGATE_INFLUENCE_BONUS,
+    );
+    const index = Object.keys(state.players).sort().indexOf(player.id);
+    if (seededRandom(state.meta.seed, FACT_CHECK_SEED_OFFSET + index) >= chance) return actionFailed("the trail went cold");
+
+    const cutoff = state.meta.tick - NEWS_ARCHIVE_TICKS;
+    player.fact_checks = [
+      ...(player.fact_checks ?? []).filter(f => f.tick > cutoff && f.story_id !== story.id),
+      { story_id: story.id, kind: story.kind, text: story.text, band: truthBand(story.truth_score), tick: state.meta.tick },
+    ];
+    return actionDone("you got to the bottom of the story");
+  },
 
-  // --- Budget calculations ---
-  const ticksPerYear = Math.round(365 / (state.meta.tick_interval_hours / 24));
-  econ.budget.revenue = (econ.gdp * econ.tax_rate * 0.01 * econ.tax_compliance) / ticksPerYear;
-  econ.budget.deficit = econ.budget.spending - econ.budget.revenue;
-  econ.budget.reserves -= econ.budget.deficit;
-  econ.budget.reserves = clampToConstraints("economy.budget.reserves", econ.budget.reserves);
+  debunk: (state, player, action) => publicCall(state, player, action, "debunk"),
+  amplify: (state, player, action) => publicCall(state, player, action, "amplify"),
+};
 
-  // --- Unemployment ---
-  // Simple model: unemployment inversely correlated with GDP growth
-  if (econ.gdp_delta > 0) {
-    econ.unemployment = Math.max(0, econ.unemployment - 0.3);
-  } else {
-    econ.unemployment = Math.min(100, econ.unemployment + 0.5);
+/**
+ * Debunking a false story or amplifying a true one builds trust in the news,
+ * and the caller's name with it; getting it wrong costs more than getting it
+ * right earns. Either way the call goes on record for Media.
+ */
+function publicCall(state: WorldState, player: Player, action: TypedAction<"debunk" | "amplify">, stance: PublicFactCheck["stance"]): ActionOutcome {
+  const story = findStory(state, action.params.story_id);
+  if (!story) return actionFailed("no such story is going around");
+
+  (state.media_state.fact_checks ??= []).push({
+    tick: state.meta.tick,
+    player_id: player.id,
+    stance,
+    story_id: story.id,
+    text: story.text,
+  });
+
+  if (story.truth_score !== null) {
+    const right = stance === "debunk" ? story.truth_score < TRUE_ENOUGH : story.truth_score >= TRUE_ENOUGH;
+    const weight = FACT_CHECK_TRUST * (1 + player.hidden_stats.influence / 100);
+    const soc = state.society;
+    soc.public_trust = clampToConstraints("society.public_trust", soc.public_trust + (right ? weight : -weight * WRONG_CALL_PENALTY));
+    player.hidden_stats.reputation = Math.max(-100, Math.min(100, player.hidden_stats.reputation + (right ? 1 : -1)));
   }
+  return actionDone(stance === "debunk" ? "word of your debunking got around" : "you gave the story a wider airing");
+}
 
-  // --- Spending effects ---
-  const alloc = gov.budget_allocation;
+// ============================================================================
+// ACTION REGISTRY
+// ============================================================================
+// Every player action, in one place: who may take it, the params it accepts,
+// what it costs and how often it can be repeated. Its processor is the entry
+// under the same type in ACTION_PROCESSORS. Submit-time validation, the player
+// view's available_actions and GET /actions are all read from this list.
+// ============================================================================
+
+/** Param defs for one action; each name must be one of that action's params */
+type ActionParamDefs<T extends ActionType> = T extends ActionType
+  ? (ActionParamDef & { name: Extract<keyof ActionParamsMap[T], string> })[]
+  : never;
+
+interface ActionSpec<T extends ActionType = ActionType> extends ActionDef {
+  type: T;
+  phase: ActionPhase;
+  params: ActionParamDefs<T>;
+}
+
+/** Any one action's spec, with its param names tied to its type */
+type AnyActionSpec = { [T in ActionType]: ActionSpec<T> }[ActionType];
+
+const ACTION_REGISTRY: AnyActionSpec[] = [
+  {
+    type: "work",
+    roles: ["citizen"],
+    phase: "work",
+    label: "Work",
+    params: [],
+    cooldown: 1,
+  },
+  {
+    type: "consume",
+    roles: ["citizen"],
+    phase: "consumption",
+    label: "Consume Goods",
+    params: [{ name: "business_id", type: "text", label: "Business ID (blank = best buy)" }],
+    cooldown: 1,
+  },
+  {
+    type: "vote_law",
+    roles: ["citizen"],
+    phase: "politics",
+    label: "Vote on Law",
+    params: [
+      { name: "law_id", type: "text", label: "Law ID", required: true },
+      { name: "vote", type: "select", label: "Vote", options: ["for", "against", "abstain"], required: true },
+    ],
+    requires: ["law_in_voting"],
+  },
+  {
+    type: "join_movement",
+    roles: ["citizen"],
+    phase: "movements",
+    label: "Join Movement",
+    params: [{ name: "movement_id", type: "text", label: "Movement ID", required: true }],
+    cooldown: 1,
+  },
+  {
+    type: "leave_movement",
+    roles: ["citizen"],
+    phase: "movements",
+    label: "Leave Movement",
+    params: [],
+    cooldown: 1,
+    requires: ["in_movement"],
+  },
+  {
+    type: "found_movement",
+    roles: ["citizen"],
+    phase: "movements",
+    label: "Found Movement",
+    params: [
+      { name: "name", type: "text", label: "Movement Name", required: true, maxLength: 60 },
+      {
+        name: "type",
+        type: "select",
+        label: "Cause",
+        options: ["reform", "populist", "radical", "separatist", "labor", "business"],
+        required: true,
+      },
+      { name: "demands", type: "textarea", label: "Founding Demands (one per line, max 3)", maxLength: 500 },
+    ],
+    cost: { wealth: FOUND_COST },
+    cooldown: 10,
+  },
+  {
+    type: "raise_demand",
+    roles: ["citizen"],
+    phase: "movements",
+    label: "Raise Demand",
+    params: [{ name: "text", type: "text", label: "Demand (140 chars)", required: true, maxLength: 140 }],
+    cooldown: 2,
+    requires: ["in_movement"],
+  },
+  {
+    type: "back_leader",
+    roles: ["citizen"],
+    phase: "movements",
+    label: "Back Leader",
+    params: [{ name: "player_id", type: "text", label: "Member ID", required: true }],
+    cooldown: 1,
+    requires: ["in_movement"],
+  },
+  {
+    type: "movement_action",
+    roles: ["citizen"],
+    phase: "movements",
+    label: "Call Collective Action",
+    params: [
+      { name: "kind", type: "select", label: "Action", options: ["strike", "march", "boycott"], required: true },
+      { name: "business_id", type: "text", label: "Target Business ID (blank = all)" },
+    ],
+    cooldown: 1,
+    requires: ["movement_leader"],
+  },
+  {
+    type: "endorse",
+    roles: ["citizen", "business_owner"],
+    phase: "politics",
+    label: "Endorse Candidate",
+    params: [{ name: "politician_id", type: "text", label: "Politician ID", required: true }],
+    cooldown: 1,
+    requires: ["campaign_open"],
+  },
+  {
+    type: "apply_job",
+    roles: ["citizen"],
+    phase: "work",
+    label: "Apply for Job",
+    params: [{ name: "business_id", type: "text", label: "Business ID (blank = any)" }],
+    cooldown: 1,
+    requires: ["unemployed"],
+  },
+  {
+    type: "quit_job",
+    roles: ["citizen"],
+    phase: "work",
+    label: "Quit Job",
+    params: [],
+    cooldown: 1,
+    requires: ["employed"],
+  },
+  {
+    type: "produce",
+    roles: ["business_owner"],
+    phase: "work",
+    label: "Produce Goods",
+    params: [],
+    cooldown: 1,
+  },
+  {
+    type: "set_price",
+    roles: ["business_owner"],
+    phase: "business",
+    label: "Set Price",
+    params: [{ name: "price", type: "number", label: "Price vs Index (0.5-3)", required: true, min: 0.5, max: 3 }],
+    cooldown: 1,
+  },
+  {
+    type: "set_wages",
+    roles: ["business_owner"],
+    phase: "business",
+    label: "Set Wages",
+    params: [
+      { name: "wage_level", type: "number", label: "Wage Level (0.1-10)", required: true, min: 0.1, max: 10 },
+    ],
+    cooldown: 1,
+  },
+  {
+    type: "lobby",
+    roles: ["business_owner"],
+    phase: "politics",
+    label: "Lobby Politician",
+    params: [
+      { name: "politician_id", type: "text", label: "Politician ID", required: true },
+      { name: "amount", type: "number", label: "Amount", min: 0 },
+    ],
+    cost: { influence: 1 },
+    cooldown: 2,
+    requires: ["politician_exists"],
+  },
+  {
+    type: "evade_taxes",
+    roles: ["business_owner"],
+    phase: "business",
+    label: "Evade Taxes",
+    params: [],
+    cooldown: 1,
+  },
+  {
+    type: "comply_taxes",
+    roles: ["business_owner"],
+    phase: "business",
+    label: "Comply with Taxes",
+    params: [],
+    cooldown: 1,
+  },
+  {
+    type: "post_jobs",
+    roles: ["business_owner"],
+    phase: "business",
+    label: "Post Job Openings",
+    params: [{ name: "slots", type: "number", label: "Open Slots (0-20)", required: true, min: 0, max: 20, integer: true }],
+    cooldown: 1,
+  },
+  {
+    type: "intimidate",
+    roles: ["business_owner", "politician"],
+    phase: "politics",
+    label: "Intimidate",
+    params: [{ name: "player_id", type: "text", label: "Target Player ID", required: true }],
+    cost: { influence: 2 },
+    cooldown: 3,
+    requires: ["in_office"],
+  },
+  {
+    type: "propose_law",
+    roles: ["politician"],
+    phase: "politics",
+    label: "Propose Law",
+    params: [
+      { name: "text", type: "textarea", label: "Law Text", required: true, maxLength: 2000 },
+      { name: "sunset_ticks", type: "number", label: "Sunset After Ticks (blank = never)", min: 1, integer: true },
+      {
+        name: "category",
+        type: "select",
+        label: "Category",
+        options: ["auto", "general", "fiscal", "civil_rights", "security", "constitutional"],
+      },
+    ],
+    cost: { influence: 2 },
+    cooldown: 3,
+    requires: ["in_office"],
+  },
+  {
+    type: "propose_repeal",
+    roles: ["politician"],
+    phase: "politics",
+    label: "Propose Repeal",
+    params: [
+      { name: "law_id", type: "text", label: "Law ID", required: true },
+      { name: "text", type: "textarea", label: "Reason", maxLength: 2000 },
+    ],
+    cost: { influence: 2 },
+    cooldown: 3,
+    requires: ["in_office", "law_active"],
+  },
+  {
+    type: "propose_amendment",
+    roles: ["politician"],
+    phase: "politics",
+    label: "Propose Amendment",
+    params: [
+      { name: "law_id", type: "text", label: "Law ID", required: true },
+      { name: "text", type: "textarea", label: "Amended Law Text", required: true, maxLength: 2000 },
+      { name: "sunset_ticks", type: "number", label: "Sunset After Ticks (blank = keep)", min: 1, integer: true },
+    ],
+    cost: { influence: 2 },
+    cooldown: 3,
+    requires: ["in_office", "law_active"],
+  },
+  {
+    type: "set_tax_rate_proposal",
+    roles: ["politician"],
+    phase: "politics",
+    label: "Propose Tax Rate",
+    params: [{ name: "rate", type: "number", label: "Tax Rate (0-100%)", required: true, min: 0, max: 100 }],
+    cost: { influence: 2 },
+    cooldown: 3,
+    requires: ["in_office"],
+  },
+  {
+    type: "set_spending_level",
+    roles: ["politician"],
+    phase: "politics",
+    label: "Propose Spending Level",
+    params: [{ name: "spending", type: "number", label: "Spending per Tick (0-1000)", required: true, min: 0, max: 1000 }],
+    cost: { influence: 2 },
+    cooldown: 3,
+    requires: ["in_office"],
+  },
+  {
+    type: "vote_law_politician",
+    roles: ["politician"],
+    phase: "politics",
+    label: "Vote on Law",
+    params: [
+      { name: "law_id", type: "text", label: "Law ID", required: true },
+      { name: "vote", type: "select", label: "Vote", options: ["for", "against", "abstain"], required: true },
+    ],
+    requires: ["in_office", "law_in_voting"],
+  },
+  {
+    type: "allocate_budget",
+    roles: ["politician"],
+    phase: "politics",
+    label: "Allocate Budget",
+    sumTo: 1,
+    params: [
+      { name: "welfare", type: "number", label: "Welfare (0-1)", required: true, min: 0, max: 1 },
+      { name: "infrastructure", type: "number", label: "Infrastructure (0-1)", required: true, min: 0, max: 1 },
+      { name: "enforcement", type: "number", label: "Enforcement (0-1)", required: true, min: 0, max: 1 },
+      { name: "education", type: "number", label: "Education (0-1)", required: true, min: 0, max: 1 },
+      { name: "discretionary", type: "number", label: "Discretionary (0-1)", required: true, min: 0, max: 1 },
+    ],
+    cooldown: 1,
+    requires: ["in_office"],
+  },
+  {
+    type: "publish_statement",
+    roles: ["politician"],
+    phase: "politics",
+    label: "Publish Statement",
+    params: [{ name: "text", type: "textarea", label: "Statement Text", required: true, maxLength: 500 }],
+    cooldown: 2,
+  },
+  {
+    type: "campaign",
+    roles: ["politician"],
+    phase: "politics",
+    label: "Campaign",
+    params: [{ name: "message", type: "textarea", label: "Campaign Message", maxLength: 500 }],
+    cooldown: 1,
+    requires: ["campaign_open"],
+  },
+  {
+    type: "investigate",
+    roles: ["citizen", "business_owner", "politician"],
+    phase: "politics",
+    label: "Investigate Story",
+    params: [{ name: "story_id", type: "text", label: "Headline or Rumor ID", required: true }],
+    costByRole: INVESTIGATE_COST,
+    cooldown: 1,
+    requires: ["story_exists"],
+  },
+  {
+    type: "debunk",
+    roles: ["citizen", "business_owner", "politician"],
+    phase: "politics",
+    label: "Debunk Story",
+    params: [{ name: "story_id", type: "text", label: "Headline or Rumor ID", required: true }],
+    cost: { influence: 1 },
+    cooldown: 2,
+    requires: ["story_exists"],
+  },
+  {
+    type: "amplify",
+    roles: ["citizen", "business_owner", "politician"],
+    phase: "politics",
+    label: "Amplify Story",
+    params: [{ name: "story_id", type: "text", label: "Headline or Rumor ID", required: true }],
+    cost: { influence: 1 },
+    cooldown: 2,
+    requires: ["story_exists"],
+  },
+];
+
+// Each returns why the player cannot act, or null if they can
+const PREREQUISITES: Record<ActionPrerequisite, (state: WorldState, player: Player, params: ActionParams) => string | null> = {
+  employed: (state, player) => player.role_data.citizen?.employer_id ? null : "you have no job",
+  unemployed: (state, player) => player.role_data.citizen?.employer_id ? "you already have a job" : null,
+  in_movement: (state, player) => movementOf(state, player) ? null : "you are not in a movement",
+  movement_leader: (state, player) => movementOf(state, player)?.leader_id === player.id ? null : "you do not lead a movement",
+  in_office: (state, player) => player.role !== "politician" || isInOffice(player) ? null : "you do not hold office",
+  politician_exists: (state, player, params) =>
+    state.players[params.politician_id ?? ""]?.role === "politician" ? null : "no such politician",
+  law_in_voting: (state, player, params) =>
+    state.laws.some(l => l.id === params.law_id && l.status === "voting") ? null : "that law is not open for a vote",
+  law_active: (state, player, params) =>
+    state.laws.some(l => l.id === params.law_id && l.status === "active") ? null : "that law is not in force",
+  campaign_open: state => state.government.campaign ? null : "no campaign is under way",
+  story_exists: (state, player, params) =>
+    typeof params.story_id === "string" && findStory(state, params.story_id) ? null : "no such story is going around",
+};
+
+/** What this player pays for the action: their role's own price, or the common one */
+function actionCost(spec: ActionDef, player: Player): ActionCost {
+  return spec.costByRole?.[player.role] ?? spec.cost ?? {};
+}
+
+/**
+ * Why the player may not take this action now, or null if they may. Checked
+ * when the action is submitted and again when the tick comes to run it.
+ */
+function checkAction(state: WorldState, player: Player, spec: ActionDef, params: ActionParams): string | null {
+  const last = player.last_taken?.[spec.type];
+  if (spec.cooldown && last !== undefined && state.meta.tick - last < spec.cooldown) {
+    const wait = spec.cooldown - (state.meta.tick - last);
+    return `cooling down for ${wait} more tick${wait === 1 ? "" : "s"}`;
+  }
+  const cost = actionCost(spec, player);
+  if ((cost.wealth ?? 0) > player.visible_stats.wealth) return "you cannot afford it";
+  if ((cost.influence ?? 0) > player.hidden_stats.influence) return "you lack the standing";
+  for (const prerequisite of spec.requires ?? []) {
+    const reason = PREREQUISITES[prerequisite](state, player, params);
+    if (reason) return reason;
+  }
+  return null;
+}
+
+/** Only once the action has gone through: a failure costs nothing and starts no cooldown */
+function chargeAction(state: WorldState, player: Player, spec: ActionDef): void {
+  const cost = actionCost(spec, player);
+  player.visible_stats.wealth -= cost.wealth ?? 0;
+  player.hidden_stats.influence = Math.max(0, player.hidden_stats.influence - (cost.influence ?? 0));
+  (player.last_taken ??= {})[spec.type] = state.meta.tick;
+}
+
+/** Phases in run order, each with the players who act in it, in turn */
+type ActionOrder = { phase: ActionPhase; players: string[] }[];
+
+/** Players are shuffled per phase, drawing indices by id so join order never matters */
+function scheduleActions(state: WorldState): ActionOrder {
+  const acting = Object.values(state.players)
+    .filter(p => p.alive && p.actions_pending.length > 0)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  return ACTION_PHASES.map((phase, n) => ({
+    phase,
+    players: acting
+      .filter(p => p.actions_pending.some(a => findAction(a.action_type, p.role)?.phase === phase))
+      .map((p, i) => ({ id: p.id, order: seededRandom(state.meta.seed, ORDER_SEED_OFFSET + n * 200 + i) }))
+      .sort((a, b) => a.order - b.order || a.id.localeCompare(b.id))
+      .map(s => s.id),
+  }));
+}
+
+function findAction(type: string, role?: Player["role"]): AnyActionSpec | undefined {
+  return ACTION_REGISTRY.find(a => a.type === type && (!role || a.roles.includes(role)));
+}
+
+/**
+ * Validates the params once more against the spec they are filed under, coercing
+ * them in place, or notes on the action why they fail. Submit-time checks cannot
+ * be taken on trust here: replayed and restored actions never went through them.
+ */
+function hasValidParams(spec: ActionDef, action: PlayerAction): action is PlayerAction & TypedAction {
+  const checked = validateActionParams(spec, action.params);
+  if (!checked.ok) {
+    action.rejected = checked.errors.map(e => e.message).join("; ");
+    return false;
+  }
+  action.params = checked.params;
+  return true;
+}
+
+/** Indexing the processor table by a generic type keeps each processor paired with its own params */
+function runProcessor<T extends ActionType>(type: T, state: WorldState, player: Player, action: TypedAction<T>): ActionOutcome {
+  const processor: ActionProcessor<T> = ACTION_PROCESSORS[type];
+  return processor(state, player, action);
+}
+
+/** Public definitions; all of them, or one role's */
+function listActions(role?: Player["role"]): ActionDef[] {
+  return ACTION_REGISTRY.filter(a => !role || a.roles.includes(role));
+}
+
+// ============================================================================
+// ECONOMIC AUTO-CALCULATIONS
+// ============================================================================
+// These run every tick regardless of player actions.
+
+function recalculateEconomics(state: WorldState): void {
+  const econ = state.economy;
+  const soc = state.society;
+  const gov = state.government;
+
+  // --- Price index driven by supply/demand ---
+  if (econ.market.supply > 0) {
+    const ratio = econ.market.demand / econ.market.supply;
+    // Price moves toward demand/supply ratio, with inertia
+    econ.market.price_index = econ.market.price_index * 0.8 + ratio * 0.2;
+    econ.market.price_index = clampToConstraints("economy.market.price_index", econ.market.price_index);
+  }
+
+  // --- Shortage detection ---
+  econ.market.shortage = econ.market.demand > econ.market.supply * 1.2;
+
+  // --- Inflation driven by price changes and budget deficit ---
+  const priceInflation = (econ.market.price_index - 1.0) * 10;
+  const deficitInflation = econ.budget.deficit > 0 ? econ.budget.deficit * 0.01 : 0;
+  econ.inflation = econ.inflation * 0.7 + (priceInflation + deficitInflation) * 0.3;
+  econ.inflation = clampToConstraints("economy.inflation", econ.inflation);
+
+  // --- GDP growth/decline ---
+  const previousGdp = econ.gdp;
+  // Production adds, inflation erodes, unemployment drags
+  const growthFactor = 1 + (0.02 - econ.inflation * 0.001 - econ.unemployment * 0.001);
+  econ.gdp *= growthFactor;
+  econ.gdp = clampToConstraints("economy.gdp", econ.gdp);
+  econ.gdp_delta = econ.gdp - previousGdp;
+
+  // --- Budget calculations ---
+  // Tax rate and spending are set by fiscal bills and laws; keep them in bounds
+  econ.tax_rate = clampToConstraints("economy.tax_rate", econ.tax_rate);
+  econ.budget.spending = clampToConstraints("economy.budget.spending", econ.budget.spending);
+  const ticksPerYear = Math.round(365 / (state.meta.tick_interval_hours / 24));
+  // The NPC economy's taxes, plus what the fiscal pass collected from players
+  econ.budget.revenue = (econ.gdp * econ.tax_rate * 0.01 * econ.tax_compliance) / ticksPerYear
+    + (econ.budget.player_taxes ?? 0);
+  econ.budget.deficit = econ.budget.spending - econ.budget.revenue;
+  econ.budget.reserves -= econ.budget.deficit;
+  econ.budget.reserves = clampToConstraints("economy.budget.reserves", econ.budget.reserves);
+
+  // --- Unemployment ---
+  // NPC baseline follows GDP growth; player citizens count as they actually are
+  let npcUnemployment = econ.npc_unemployment ?? econ.unemployment;
+  if (econ.gdp_delta > 0) {
+    npcUnemployment = Math.max(0, npcUnemployment - 0.3);
+  } else {
+    npcUnemployment = Math.min(100, npcUnemployment + 0.5);
+  }
+  econ.npc_unemployment = npcUnemployment;
+
+  const citizens = Object.values(state.players).filter(p => p.alive && p.role === "citizen");
+  const jobless = citizens.filter(p => !p.role_data.citizen?.employer_id).length;
+  econ.unemployment = clampToConstraints(
+    "economy.unemployment",
+    (npcUnemployment * NPC_LABOUR_FORCE + jobless * 100) / (NPC_LABOUR_FORCE + citizens.length)
+  );
+
+  // --- Spending effects ---
+  const alloc = gov.budget_allocation;
   const totalSpending = econ.budget.spending;
 
   // Welfare reduces dissatisfaction
@@ -836,75 +2131,939 @@ function recalculateEconomics(state: WorldState): void {
   if (soc.satisfaction < 30) {
     soc.stability -= (30 - soc.satisfaction) * 0.05;
   }
-  if (soc.radicalization > 50) {
-    soc.stability -= (soc.radicalization - 50) * 0.03;
+  if (soc.radicalization > 50) {
+    soc.stability -= (soc.radicalization - 50) * 0.03;
+  }
+  soc.stability = clampToConstraints("society.stability", soc.stability);
+
+  // --- Protest pressure accumulation ---
+  // Grievances build all the same; fear of the government keeps some off the street
+  const unsuppressed = 1 - fearSuppression(state);
+  if (soc.satisfaction < 40) {
+    soc.protest_pressure += 0.05 * unsuppressed;
+  }
+  if (econ.market.shortage) {
+    soc.protest_pressure += 0.1 * unsuppressed;
+  }
+  if (econ.unemployment > 15) {
+    soc.protest_pressure += 0.03 * unsuppressed;
+  }
+  // Natural decay
+  soc.protest_pressure *= 0.9;
+  soc.protest_pressure = clampToConstraints("society.protest_pressure", soc.protest_pressure);
+
+  // --- Market natural decay toward equilibrium ---
+  econ.market.supply *= 0.95; // goods perish / depreciate
+  econ.market.demand *= 0.90; // demand resets faster
+}
+
+// ============================================================================
+// LABOUR MATCHING
+// ============================================================================
+// Runs after player actions. Job seekers are matched to open slots in a
+// seeded order so early joiners get no edge; each takes the best-paying firm.
+
+function processLabourMarket(state: WorldState): { hired: number; released: number } {
+  let hired = 0;
+  let released = 0;
+
+  // Employers that went away take their jobs with them
+  for (const player of Object.values(state.players)) {
+    const rd = player.role_data?.citizen;
+    if (player.role !== "citizen" || !rd?.employer_id) continue;
+    const employer = state.players[rd.employer_id];
+    if (!employer || !employer.alive || employer.role !== "business_owner") {
+      rd.employer_id = null;
+      released++;
+    }
+  }
+
+  const seekers = Object.values(state.players)
+    .filter(p => p.alive && p.role === "citizen" && p.role_data.citizen?.job_application && !p.role_data.citizen.employer_id)
+    .map((p, i) => ({ player: p, order: seededRandom(state.meta.seed, 3000 + i) }))
+    .sort((a, b) => a.order - b.order || a.player.id.localeCompare(b.player.id))
+    .map(s => s.player);
+
+  const firms = Object.values(state.players).filter(
+    p => p.alive && p.role === "business_owner" && p.role_data.business_owner
+  );
+
+  for (const seeker of seekers) {
+    const rd = seeker.role_data.citizen;
+    const open = firms
+      .filter(f => (f.role_data.business_owner.job_openings ?? 0) > 0)
+      .filter(f => rd.job_application === "any" || f.id === rd.job_application)
+      .sort((a, b) =>
+        b.role_data.business_owner.wage_level - a.role_data.business_owner.wage_level ||
+        a.id.localeCompare(b.id)
+      );
+    const firm = open[0];
+    if (!firm) continue; // keep waiting
+
+    const brd = firm.role_data.business_owner;
+    brd.job_openings--;
+    brd.employees++;
+    brd.production_capacity += CAPACITY_PER_HIRE;
+    rd.employer_id = firm.id;
+    rd.job_application = null;
+    rd.economic_pressure = Math.max(0, rd.economic_pressure - 10);
+    hired++;
+  }
+
+  return { hired, released };
+}
+
+// ============================================================================
+// MARKET CLEARING
+// ============================================================================
+// Runs after player actions, so this tick's production is on the shelves and
+// player purchases are already counted. NPC buyers take the share of stock the
+// market demands, fewer when prices run high, split across firms by appeal.
+
+/** Alive business owners with goods to sell */
+function stockedFirms(state: WorldState): Player[] {
+  return Object.values(state.players).filter(inStock);
+}
+
+function inStock(player: Player): boolean {
+  return player.alive && player.role === "business_owner" && (player.role_data.business_owner?.inventory ?? 0) > 0;
+}
+
+/** What one unit from this firm costs a buyer */
+function unitPrice(state: WorldState, firm: Player): number {
+  return (firm.role_data.business_owner?.price ?? 1) * state.economy.market.price_index;
+}
+
+/** Buyers weigh price first, then the owner's public reputation */
+function firmAppeal(firm: Player): number {
+  const standing = 1 + Math.max(-0.5, Math.min(0.5, firm.hidden_stats.reputation / 100));
+  return standing / Math.pow(firm.role_data.business_owner?.price ?? 1, PRICE_ELASTICITY);
+}
+
+/** Moves units off a firm's shelves and pays the owner; returns the takings */
+function sellGoods(state: WorldState, firm: Player, units: number): number {
+  const rd = firm.role_data.business_owner;
+  const sold = Math.max(0, Math.min(units, rd.inventory));
+  const takings = sold * unitPrice(state, firm);
+  rd.inventory -= sold;
+  rd.units_sold = (rd.units_sold ?? 0) + sold;
+  rd.taxable_income = (rd.taxable_income ?? 0) + takings;
+  firm.visible_stats.wealth += takings;
+  return takings;
+}
+
+function clearMarket(state: WorldState): void {
+  const market = state.economy.market;
+  const firms = Object.values(state.players).filter(p => p.alive && p.role === "business_owner" && p.role_data.business_owner);
+  for (const firm of firms) {
+    const rd = firm.role_data.business_owner;
+    rd.inventory ??= 0;
+    rd.price ??= 1;
+    rd.units_sold ??= 0;
+  }
+
+  const stock = firms.reduce((sum, f) => sum + f.role_data.business_owner.inventory, 0);
+  if (stock > 0) {
+    const avgPrice = firms.reduce((sum, f) => sum + f.role_data.business_owner.inventory * f.role_data.business_owner.price, 0) / stock;
+    let wanted = Math.min(stock, (stock * Math.min(1, market.demand / Math.max(1, market.supply))) / avgPrice);
+
+    // A sold-out firm's share spills over to its rivals
+    for (let pass = 0; pass < firms.length && wanted > 0.01; pass++) {
+      const stocked = firms.filter(inStock);
+      const appeal = stocked.reduce((sum, f) => sum + firmAppeal(f), 0);
+      if (appeal <= 0) break;
+      let sold = 0;
+      for (const firm of stocked) {
+        const before = firm.role_data.business_owner.inventory;
+        sellGoods(state, firm, (wanted * firmAppeal(firm)) / appeal);
+        sold += before - firm.role_data.business_owner.inventory;
+      }
+      wanted -= sold;
+    }
+  }
+
+  // Shares count every unit sold this tick, to players and NPCs alike
+  const total = firms.reduce((sum, f) => sum + f.role_data.business_owner.units_sold, 0);
+  market.concentration = 0;
+  for (const firm of firms) {
+    const rd = firm.role_data.business_owner;
+    rd.market_share = total > 0 ? rd.units_sold / total : 0;
+    market.concentration += rd.market_share * rd.market_share;
+    rd.last_sales = rd.units_sold;
+    rd.units_sold = 0;
+    rd.inventory *= 1 - INVENTORY_SPOILAGE;
+  }
+}
+
+// ============================================================================
+// TAXES AND WELFARE
+// ============================================================================
+// Runs once the market has cleared, so a firm's income is this tick's takings
+// less payroll. Revenue and spending totals are settled in recalculateEconomics.
+
+function runFiscalPass(state: WorldState): void {
+  const econ = state.economy;
+  const rate = econ.tax_rate / 100;
+
+  let collected = 0;
+  for (const player of Object.values(state.players)) {
+    const rd = player.role === "citizen" ? player.role_data.citizen
+      : player.role === "business_owner" ? player.role_data.business_owner
+      : null;
+    if (!rd) continue;
+
+    const income = rd.taxable_income ?? 0;
+    rd.taxable_income = 0;
+    rd.tax_paid = 0;
+    if (!player.alive || income <= 0) continue;
+
+    // Firms declare only what they do not hide
+    const declared = player.role === "business_owner" ? income * (1 - (rd.tax_evasion ?? 0)) : income;
+    const tax = declared * rate;
+    player.visible_stats.wealth -= tax;
+    rd.tax_paid = tax;
+    collected += tax;
+  }
+  econ.budget.player_taxes = collected;
+
+  // Welfare splits evenly among citizens below the line, up to a cap each
+  const citizens = Object.values(state.players).filter(p => p.alive && p.role === "citizen" && p.role_data.citizen);
+  const needy = citizens.filter(p => p.visible_stats.wealth < WELFARE_WEALTH_LINE);
+  const pool = (state.government.budget_allocation.welfare ?? 0) * econ.budget.spending * WELFARE_PLAYER_SHARE;
+  const transfer = needy.length > 0 ? Math.min(MAX_WELFARE_TRANSFER, pool / needy.length) : 0;
+
+  for (const citizen of citizens) {
+    const rd = citizen.role_data.citizen;
+    rd.welfare_received = needy.includes(citizen) ? transfer : 0;
+    if (rd.welfare_received > 0) {
+      citizen.visible_stats.wealth += transfer;
+      rd.economic_pressure = Math.max(0, rd.economic_pressure - transfer * 2);
+    }
+  }
+  econ.budget.welfare_transfers = transfer * needy.length;
+}
+
+// ============================================================================
+// MOVEMENT ACTIVITY
+// ============================================================================
+// Runs after the action phase: settles leadership, prunes departed members
+// and lets membership sustain (or its absence erode) a movement's strength.
+
+/** The movement a citizen belongs to, if it still exists */
+function movementOf(state: WorldState, player: Player): Movement | null {
+  if (player.role !== "citizen" || !player.visible_stats.movement_id) return null;
+  const movement = state.society.movements.find(m => m.id === player.visible_stats.movement_id);
+  return movement && movement.member_player_ids.includes(player.id) ? movement : null;
+}
+
+/** Movement ids are seeded; skip any still held by a live movement after a dissolution */
+function newMovementId(state: WorldState): string {
+  let counter = 7000 + state.society.movements.length;
+  let id = seededUUID(state.meta.seed, counter);
+  while (state.society.movements.some(m => m.id === id)) id = seededUUID(state.meta.seed, ++counter);
+  return id;
+}
+
+/** How hard a movement hits: strength, amplified by the members it can turn out */
+function movementForce(state: WorldState, movement: Movement): number {
+  const members = movement.member_player_ids.filter(id => state.players[id]?.alive).length;
+  return movement.strength * (1 + Math.log2(1 + members));
+}
+
+const COLLECTIVE_ACTIONS: Record<CollectiveAction, (state: WorldState, movement: Movement, firm: Player | null) => void> = {
+  // Employed members walk out; their employers lose capacity and face more unrest
+  strike: (state, movement, firm) => {
+    const force = movementForce(state, movement);
+    for (const id of movement.member_player_ids) {
+      const employerId = state.players[id]?.role_data?.citizen?.employer_id;
+      if (!employerId || (firm && employerId !== firm.id)) continue;
+
+      const brd = state.players[employerId]?.role_data?.business_owner;
+      if (!brd) continue;
+      // The capacity comes back once the strike is over (see processMovements)
+      const lost = Math.min(brd.production_capacity, CAPACITY_PER_HIRE * movement.strength);
+      brd.production_capacity -= lost;
+      const loss: StrikeLoss = { until: state.meta.tick + STRIKE_TICKS, capacity: lost };
+      (brd.strike_losses ??= []).push(loss);
+      brd.strike_risk = Math.min(1, brd.strike_risk + 0.1);
+    }
+    state.society.protest_pressure = clampToConstraints(
+      "society.protest_pressure",
+      state.society.protest_pressure + 0.03 * force,
+    );
+  },
+
+  // Takes to the streets; fear of the government keeps some at home
+  march: (state, movement) => {
+    const force = movementForce(state, movement) * (1 - fearSuppression(state));
+    const soc = state.society;
+    soc.protest_pressure = clampToConstraints("society.protest_pressure", soc.protest_pressure + 0.1 * force);
+    soc.stability = clampToConstraints("society.stability", soc.stability - 2 * force);
+    movement.strength = Math.min(1, movement.strength + 0.02); // being seen draws support
+  },
+
+  // Members stop buying: from one firm, or from the market at large
+  boycott: (state, movement, firm) => {
+    const force = movementForce(state, movement);
+    const market = state.economy.market;
+    if (firm) {
+      firm.visible_stats.wealth -= 5 * force;
+      firm.hidden_stats.influence = Math.max(0, firm.hidden_stats.influence - force);
+      market.demand = clampToConstraints("economy.market.demand", market.demand - 2 * force);
+    } else {
+      market.demand = clampToConstraints("economy.market.demand", market.demand * (1 - 0.05 * force));
+    }
+  },
+};
+
+function processMovements(state: WorldState): void {
+  const movements = state.society.movements;
+
+  for (const movement of movements) {
+    movement.member_player_ids = movement.member_player_ids.filter(id => {
+      const p = state.players[id];
+      return p?.alive && p.visible_stats.movement_id === movement.id;
+    });
+    const members = movement.member_player_ids;
+
+    // Backing only counts between current members, weighted like a vote
+    const backing = movement.leader_backing ??= {};
+    const tally: Record<string, number> = {};
+    for (const [backerId, candidateId] of Object.entries(backing)) {
+      if (!members.includes(backerId) || !members.includes(candidateId)) {
+        delete backing[backerId];
+        continue;
+      }
+      tally[candidateId] = (tally[candidateId] ?? 0) + voteWeight(state, state.players[backerId]);
+    }
+    const ranked = Object.keys(tally).sort((a, b) => tally[b] - tally[a] || a.localeCompare(b));
+    const incumbent = movement.leader_id && members.includes(movement.leader_id) ? movement.leader_id : null;
+    // Ties go to the sitting leader
+    movement.leader_id = ranked.length > 0 && (!incumbent || tally[ranked[0]] > (tally[incumbent] ?? 0))
+      ? ranked[0]
+      : incumbent;
+
+    const leader = movement.leader_id ? state.players[movement.leader_id] : null;
+    if (leader) leader.hidden_stats.influence = Math.min(100, leader.hidden_stats.influence + LEADER_INFLUENCE);
+
+    // Members keep a movement alive; an empty one slowly fades
+    movement.strength = Math.max(0, Math.min(1, movement.strength + 0.005 * members.length - 0.005));
+  }
+
+  // Members of a dissolved movement are left without one
+  for (const player of Object.values(state.players)) {
+    const id = player.visible_stats.movement_id;
+    if (id && !movements.some(m => m.id === id)) player.visible_stats.movement_id = null;
+  }
+
+  // Strikes that have run their course hand the lost capacity back
+  for (const player of Object.values(state.players)) {
+    const brd = player.role_data.business_owner;
+    const losses: StrikeLoss[] = brd?.strike_losses ?? [];
+    if (losses.length === 0) continue;
+    const over = losses.filter(l => l.until <= state.meta.tick);
+    brd.production_capacity += over.reduce((sum, l) => sum + l.capacity, 0);
+    brd.strike_losses = losses.filter(l => l.until > state.meta.tick);
+  }
+}
+
+// ============================================================================
+// HIDDEN STAT DYNAMICS
+// ============================================================================
+// Runs after the economy each tick. Fear fades and is topped up by enforcement
+// spending; influence fades unless history remembers the player well.
+
+function processHiddenStats(state: WorldState): void {
+  const enforcement = state.government.budget_allocation.enforcement * state.economy.budget.spending;
+
+  for (const player of Object.values(state.players)) {
+    if (!player.alive) continue;
+    const hs = player.hidden_stats;
+
+    // The police answer to whoever holds office
+    hs.fear *= FEAR_DECAY;
+    if (isInOffice(player)) hs.fear += enforcement * ENFORCEMENT_FEAR;
+    hs.fear = Math.max(0, Math.min(100, hs.fear));
+
+    // Workers think twice before striking against a feared owner
+    const brd = player.role_data.business_owner;
+    if (brd && hs.fear > 0) brd.strike_risk = Math.max(0, brd.strike_risk - hs.fear * 0.001);
+
+    // Legacy +100 holds influence in place; -100 doubles the decay
+    const legacy = Math.max(-100, Math.min(100, hs.historical_legacy ?? 0));
+    hs.influence = Math.max(0, hs.influence * (1 - INFLUENCE_DECAY * (1 - legacy / 100)));
+  }
+}
+
+/** Fold the Historian's latest verdicts into historical_legacy */
+function recordLegacy(state: WorldState, reputations: Record<string, any>): void {
+  for (const [id, rep] of Object.entries(reputations)) {
+    const player = state.players[id];
+    const score = rep?.legacy_score;
+    if (!player || typeof score !== "number" || !Number.isFinite(score)) continue;
+
+    const hs = player.hidden_stats;
+    const blended = (hs.historical_legacy ?? 0) * (1 - LEGACY_BLEND) + score * LEGACY_BLEND;
+    hs.historical_legacy = Math.max(-100, Math.min(100, blended));
+  }
+}
+
+interface FinalScore {
+  player_id: string;
+  name: string;
+  role: Player["role"];
+  title: string | null;   // the Historian's last word on them
+  score: number;
+}
+
+/** End-of-game standings. History's verdict counts double; fear counts against. */
+function computeFinalScores(state: WorldState): FinalScore[] {
+  return Object.values(state.players)
+    .map(p => {
+      const hs = p.hidden_stats;
+      const wealth = Math.log10(1 + Math.max(0, p.visible_stats.wealth)) * 10;
+      const score = (hs.historical_legacy ?? 0) * 2 + hs.influence + hs.reputation + wealth - hs.fear * 0.5;
+      return {
+        player_id: p.id,
+        name: p.name,
+        role: p.role,
+        title: state.history.player_reputations?.[p.id]?.title ?? null,
+        score: Math.round(score * 10) / 10,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.player_id.localeCompare(b.player_id));
+}
+
+// ============================================================================
+// CORRUPTION INVESTIGATIONS
+// ============================================================================
+// Runs after the economy, so this tick's enforcement budget sets the reach.
+// Exposure is settled here in full; Media only gets to tell the story.
+
+/** Settle an exposure: fine, reputation, unwound dealings. Returns the finding. */
+function exposeCorruption(state: WorldState, player: Player): string {
+  const hs = player.hidden_stats;
+  const prd = player.role_data.politician;
+  const brd = player.role_data.business_owner;
+
+  const findings: string[] = [];
+  if ((prd?.lobby_money_received ?? 0) > 0) findings.push(`took ${Math.round(prd.lobby_money_received)} in lobby money`);
+  if (brd?.lobby_target) findings.push("bought access to office holders");
+  if ((brd?.tax_evasion ?? 0) > 0) findings.push("hid income from the tax office");
+  if (findings.length === 0) findings.push("abused a position of trust");
+
+  // What was taken plus a penalty on what was found, paid into reserves
+  const fine = Math.min(Math.max(0, player.visible_stats.wealth), (prd?.lobby_money_received ?? 0) + hs.corruption);
+  player.visible_stats.wealth -= fine;
+  state.economy.budget.reserves = clampToConstraints("economy.budget.reserves", state.economy.budget.reserves + fine);
+
+  hs.reputation = Math.max(-100, hs.reputation - EXPOSURE_REPUTATION_LOSS - hs.corruption * 0.2);
+  hs.corruption *= 0.5; // the dealings unwind, the habits don't
+  if (prd) prd.lobby_money_received = 0;
+  if (brd) {
+    brd.tax_evasion = 0;
+    brd.lobby_target = null;
+  }
+
+  // An office holder caught out is removed and leaves public life
+  const removed = isInOffice(player);
+  if (removed) eliminatePlayer(state, player, "corruption");
+
+  return `${player.name} ${findings.join(", ")}. Fined ${Math.round(fine)}.${removed ? " Removed from office." : ""}`;
+}
+
+function runInvestigations(state: WorldState): GameEvent[] {
+  const econ = state.economy;
+  const enforcement = state.government.budget_allocation.enforcement * econ.budget.spending;
+  const reach = (BASE_DETECTION + enforcement * DETECTION_PER_ENFORCEMENT) * (0.5 + econ.tax_compliance);
+  const events: GameEvent[] = [];
+
+  Object.values(state.players).forEach((player, i) => {
+    const corruption = player.hidden_stats.corruption;
+    if (!player.alive || corruption < MIN_EXPOSABLE_CORRUPTION) return;
+    if (seededRandom(state.meta.seed, 9600 + i) >= reach * corruption / 100) return;
+
+    events.push({
+      id: seededUUID(state.meta.seed, 9700 + events.length),
+      source: "core_engine",
+      tick: state.meta.tick,
+      type: "corruption_exposed",
+      severity: corruption > 60 ? 3 : 2,
+      status: "applied", // consequences are settled before the event is recorded
+      description: exposeCorruption(state, player),
+      modifiers: [],
+      duration_ticks: null,
+      expires_tick: null,
+      narrative_hook: "investigators follow the money",
+      subject_player_ids: [player.id],
+    });
+  });
+
+  return events;
+}
+
+/** One set of dealings is only punished once, however many parties dig it up */
+function exposedThisTick(state: WorldState, playerId: string): boolean {
+  return state.events.some(e =>
+    e.type === "corruption_exposed" && e.tick === state.meta.tick && e.subject_player_ids?.includes(playerId)
+  );
+}
+
+/** Exposures not yet handed to Media, including any a Crisis named after last tick's news */
+function pendingLeaks(state: WorldState): GameEvent[] {
+  return state.events.filter(e =>
+    e.type === "corruption_exposed" && e.status === "applied" && e.subject_player_ids?.length && !e.leaked
+  );
+}
+
+// ============================================================================
+// ELIMINATION LIFECYCLE
+// ============================================================================
+
+/** Take a player out of the game and tie off everything they were part of */
+function eliminatePlayer(state: WorldState, player: Player, reason: EliminationReason): void {
+  if (!player.alive) return;
+  player.alive = false;
+  player.eliminated_tick = state.meta.tick;
+  player.elimination_reason = reason;
+  player.actions_pending = [];
+
+  const prd = player.role_data.politician;
+  if (prd) prd.in_office = false;
+
+  const movement = state.society.movements.find(m => m.id === player.visible_stats.movement_id);
+  if (movement) {
+    movement.member_player_ids = movement.member_player_ids.filter(id => id !== player.id);
+  }
+  player.visible_stats.movement_id = null;
+
+  // Staff of a departed firm are released by the labour market; a departing worker frees a slot here
+  const crd = player.role_data.citizen;
+  if (crd?.employer_id) {
+    const employer = state.players[crd.employer_id]?.role_data?.business_owner;
+    if (employer) {
+      employer.employees = Math.max(0, employer.employees - 1);
+      employer.production_capacity = Math.max(0, employer.production_capacity - CAPACITY_PER_HIRE);
+    }
+    crd.employer_id = null;
+  }
+  if (crd) crd.job_application = null;
+}
+
+/** Economic exits, checked once the economy has settled: bankruptcy and emigration */
+function processDepartures(state: WorldState): void {
+  for (const player of Object.values(state.players)) {
+    if (!player.alive) continue;
+
+    if (player.role === "business_owner" && player.visible_stats.wealth < 0) {
+      eliminatePlayer(state, player, "bankruptcy");
+      continue;
+    }
+
+    const rd = player.role_data.citizen;
+    if (player.role === "citizen" && rd) {
+      rd.hardship_ticks = rd.economic_pressure >= EMIGRATION_PRESSURE ? (rd.hardship_ticks ?? 0) + 1 : 0;
+      if (rd.hardship_ticks >= EMIGRATION_TICKS) eliminatePlayer(state, player, "emigration");
+    }
+  }
+}
+
+/** A revolution that takes hold sweeps every office holder away */
+function overthrowGovernment(state: WorldState): number {
+  const rulers = Object.values(state.players).filter(p => p.alive && isInOffice(p));
+  for (const player of rulers) eliminatePlayer(state, player, "revolution");
+  return rulers.length;
+}
+
+/** One event per player eliminated this tick, so Historian has them on record */
+function eliminationEvents(state: WorldState): GameEvent[] {
+  const tick = state.meta.tick;
+  return Object.values(state.players)
+    .filter(p => !p.alive && p.eliminated_tick === tick)
+    .map((p, i): GameEvent => ({
+      id: seededUUID(state.meta.seed, 9800 + i),
+      source: "core_engine",
+      tick,
+      type: "player_eliminated",
+      severity: p.elimination_reason === "revolution" ? 4 : 2,
+      status: "applied",
+      description: `${p.name} (${p.role}) is gone: ${(p.elimination_reason ?? "unknown").replace(/_/g, " ")}`,
+      modifiers: [],
+      duration_ticks: null,
+      expires_tick: null,
+      narrative_hook: "another name leaves the stage",
+      subject_player_ids: [p.id],
+    }));
+}
+
+function ticksUntilRejoin(state: WorldState, player: Player): number {
+  if (player.alive) return 0;
+  return Math.max(0, (player.eliminated_tick ?? state.meta.tick) + REJOIN_COOLDOWN_TICKS - state.meta.tick);
+}
+
+// ============================================================================
+// LAW LIFECYCLE
+// ============================================================================
+
+function processLawLifecycle(state: WorldState): { activated: number; rejected: number } {
+  let activated = 0;
+  let rejected = 0;
+  const rules = votingRules(state);
+  const firstStage: VotingStage = rules.bicameral ? "politicians" : "joint";
+
+  for (const law of state.laws) {
+    // proposed â†’ voting (immediate â€” laws are always votable next tick)
+    if (law.status === "proposed" && law.proposed_tick < state.meta.tick) {
+      law.status = "voting";
+      openStage(state, law, firstStage);
+    }
+    if (law.status === "voting" && !law.stage) openStage(state, law, firstStage);
+
+    // Each stage closes after its window (or once everyone has voted)
+    let skipped = false;
+    while (law.status === "voting") {
+      const outcome = countStage(state, law, rules);
+      if (outcome === "open") break;
+
+      if (outcome === "skipped" && !skipped && law.stage === "politicians") {
+        skipped = true;
+        openStage(state, law, "citizens");
+        continue;
+      }
+      if (outcome === "failed" || (outcome === "skipped" && (skipped || law.stage === "joint"))) {
+        law.status = "rejected";
+        rejected++;
+        break;
+      }
+      if (law.stage === "politicians") {
+        openStage(state, law, "citizens");
+        continue;
+      }
+
+      law.activated_tick = state.meta.tick;
+      if (law.fiscal) {
+        enactFiscalBill(state, law);
+      } else if ((law.kind ?? "law") === "law") {
+        law.status = "active";
+        state.government.active_law_count++;
+      } else {
+        enactBill(state, law);
+      }
+      activated++;
+    }
+
+    // Sunset clauses lapse on schedule, before this tick's effects
+    if (
+      law.status === "active" &&
+      law.sunset_ticks != null &&
+      law.activated_tick !== null &&
+      state.meta.tick >= law.activated_tick + law.sunset_ticks
+    ) {
+      repealLaw(state, law);
+    }
+
+    // Active laws with judiciary interpretation: keep their effects in force
+    if (law.status === "active" && law.judiciary_interpretation && !law.judiciary_interpretation.rejected_by_core) {
+      sustainLawEffects(state, law);
+    }
+  }
+
+  return { activated, rejected };
+}
+
+function openStage(state: WorldState, law: Law, stage: VotingStage): void {
+  law.stage = stage;
+  law.voting_opened_tick = state.meta.tick;
+  law.votes = { for: 0, against: 0, abstain: 0 };
+  law.voter_ids = [];
+}
+
+/**
+ * "skipped" when nobody is eligible for the stage. Otherwise quorum is
+ * measured against the weight of everyone eligible, and the threshold is
+ * the supermajority for listed categories.
+ */
+function countStage(state: WorldState, law: Law, rules: VotingRules): "open" | "passed" | "failed" | "skipped" {
+  const stage = law.stage ?? "joint";
+  const eligible = Object.values(state.players).filter(p => canVoteInStage(p, stage));
+  if (eligible.length === 0) return "skipped";
+
+  const allVoted = eligible.every(p => law.voter_ids?.includes(p.id));
+  const windowClosed = state.meta.tick >= (law.voting_opened_tick ?? state.meta.tick) + rules.voting_window_ticks;
+  if (!allVoted && !windowClosed) return "open";
+
+  const eligibleWeight = eligible.reduce((sum, p) => sum + voteWeight(state, p), 0);
+  const turnout = law.votes.for + law.votes.against + law.votes.abstain;
+  if (turnout < rules.quorum * eligibleWeight) return "failed";
+
+  const decided = law.votes.for + law.votes.against;
+  if (decided === 0) return "failed";
+  const share = law.votes.for / decided;
+  return rules.supermajority_categories.includes(law.category ?? "general")
+    ? (share >= rules.supermajority ? "passed" : "failed")
+    : (share > rules.majority ? "passed" : "failed");
+}
+
+function repealLaw(state: WorldState, law: Law): void {
+  reverseLawEffects(state, law);
+  law.status = "repealed";
+  law.repealed_tick = state.meta.tick;
+  state.government.active_law_count = Math.max(0, state.government.active_law_count - 1);
+}
+
+/**
+ * A passed fiscal bill sets its figure and is spent. The budget model reads
+ * the new figure from the next recalculation; a later bill overrides it.
+ */
+function enactFiscalBill(state: WorldState, bill: Law): void {
+  const { variable, value } = bill.fiscal as FiscalChange;
+  setByPath(state, variable, clampToConstraints(variable, value));
+  bill.status = "enacted";
+}
+
+/**
+ * A passed repeal or amendment acts on its target and is then spent.
+ * If the target is no longer active the bill is void.
+ */
+function enactBill(state: WorldState, bill: Law): void {
+  const target = state.laws.find(l => l.id === bill.target_law_id);
+  if (!target || target.status !== "active") {
+    bill.status = "invalidated";
+    return;
+  }
+
+  bill.status = "enacted";
+  if (bill.kind === "repeal") {
+    repealLaw(state, target);
+  } else {
+    // New text, fresh reading: the Judiciary re-interprets it this tick
+    reverseLawEffects(state, target);
+    target.original_text = bill.original_text;
+    target.amended_tick = state.meta.tick;
+    target.judiciary_interpretation = null;
+    if (bill.sunset_ticks !== null) {
+      target.sunset_ticks = state.meta.tick - (target.activated_tick ?? state.meta.tick) + bill.sunset_ticks;
+    }
   }
-  soc.stability = clampToConstraints("society.stability", soc.stability);
+}
 
-  // --- Protest pressure accumulation ---
-  if (soc.satisfaction < 40) {
-    soc.protest_pressure += 0.05;
+// ============================================================================
+// LAW EFFECTS
+// ============================================================================
+// A law's modifiers are not re-run blindly every tick. Each one has a mode,
+// and the law keeps a ledger of what it has changed so that repeal can take
+// back exactly that. A "target" effect is held against the baseline: the
+// value the variable would have without this law.
+
+function modeOf(mod: Modifier): ModifierMode {
+  return mod.mode === "once" || mod.mode === "per_tick" ? mod.mode : "target";
+}
+
+/** Move one effect forward a tick. Returns false if the engine rejected it. */
+function stepLawEffect(state: WorldState, mod: Modifier, effect: LawEffect, activating: boolean): boolean {
+  if (effect.mode === "once" && !activating) return true;
+
+  if (effect.mode === "target") {
+    const current = getByPath(state, mod.variable);
+    if (typeof current !== "number") return false;
+    const baseline = current - effect.delta;
+    setByPath(state, mod.variable, baseline);
+    const result = applyModifier(state, mod);
+    if (!result.applied) {
+      setByPath(state, mod.variable, current);
+      return false;
+    }
+    effect.delta = result.new_value - baseline;
+    return true;
   }
-  if (econ.market.shortage) {
-    soc.protest_pressure += 0.1;
+
+  const result = applyModifier(state, mod);
+  if (result.applied) effect.delta += result.new_value - result.old_value;
+  return result.applied;
+}
+
+/**
+ * First application, at Judiciary time. The implementation is valid only if
+ * every modifier applies; otherwise everything is rolled back and the law is
+ * marked rejected_by_core for good.
+ */
+function activateLawEffects(state: WorldState, law: Law): boolean {
+  const modifiers = law.judiciary_interpretation?.implementation?.modifiers ?? [];
+  law.effects = modifiers.map(mod => ({ variable: mod.variable, mode: modeOf(mod), delta: 0 }));
+
+  const ok = modifiers.every((mod, i) => stepLawEffect(state, mod, law.effects[i], true));
+  if (!ok) {
+    console.warn(`[Core Engine] Rejected implementation for law:${law.id}`);
+    for (const effect of law.effects) reverseEffect(state, effect);
+    law.effects = [];
   }
-  if (econ.unemployment > 15) {
-    soc.protest_pressure += 0.03;
+  return ok;
+}
+
+/** Every later tick. A transient failure skips that effect, it does not void the law. */
+function sustainLawEffects(state: WorldState, law: Law): void {
+  const modifiers = law.judiciary_interpretation?.implementation?.modifiers ?? [];
+  law.effects ??= [];
+  modifiers.forEach((mod, i) => {
+    law.effects[i] ??= { variable: mod.variable, mode: modeOf(mod), delta: 0 };
+    if (!stepLawEffect(state, mod, law.effects[i], false)) {
+      console.warn(`[Core Engine] Skipped effect on ${mod.variable} from law:${law.id} this tick`);
+    }
+  });
+}
+
+function reverseEffect(state: WorldState, effect: LawEffect): void {
+  const current = getByPath(state, effect.variable);
+  if (typeof current === "number" && effect.delta !== 0) {
+    setByPath(state, effect.variable, clampToConstraints(effect.variable, current - effect.delta));
   }
-  // Natural decay
-  soc.protest_pressure *= 0.9;
-  soc.protest_pressure = clampToConstraints("society.protest_pressure", soc.protest_pressure);
+  effect.delta = 0;
+}
 
-  // --- Market natural decay toward equilibrium ---
-  econ.market.supply *= 0.95; // goods perish / depreciate
-  econ.market.demand *= 0.90; // demand resets faster
+/** Take back everything except one-shot effects */
+function reverseLawEffects(state: WorldState, law: Law): void {
+  for (const effect of law.effects ?? []) {
+    if (effect.mode !== "once") reverseEffect(state, effect);
+  }
 }
 
 // ============================================================================
-// LAW LIFECYCLE
+// ELECTIONS
 // ============================================================================
+// Runs every tick alongside the law lifecycle. Schedules the next ballot,
+// opens the campaign, and on election day seats or unseats politicians.
 
-function processLawLifecycle(state: WorldState): { activated: number; rejected: number } {
-  let activated = 0;
-  let rejected = 0;
+function openCampaign(state: WorldState): Campaign {
+  const candidates: Record<string, { support: number }> = {};
+  for (const player of Object.values(state.players)) {
+    if (!player.alive || player.role !== "politician") continue;
+    // Name recognition and standing give a head start
+    candidates[player.id] = {
+      support: Math.max(0.1, 1 + player.hidden_stats.influence * 0.1 + player.hidden_stats.reputation * 0.1),
+    };
+  }
+  return { opened_tick: state.meta.tick, candidates, endorsements: {} };
+}
 
-  for (const law of state.laws) {
-    // proposed â†’ voting (immediate â€” laws are always votable next tick)
-    if (law.status === "proposed" && law.proposed_tick < state.meta.tick) {
-      law.status = "voting";
+function countBallots(state: WorldState, campaign: Campaign): ElectionResult {
+  const candidates = Object.keys(campaign.candidates).filter(id => state.players[id]?.alive);
+  const tally: Record<string, number> = {};
+  for (const id of candidates) tally[id] = 0;
+
+  const support = (id: string) => campaign.candidates[id].support;
+  const strongest = (pool: string[]) =>
+    [...pool].sort((a, b) => support(b) - support(a) || a.localeCompare(b))[0];
+
+  const incumbents = candidates.filter(id => isInOffice(state.players[id]));
+  const challengers = candidates.filter(id => !isInOffice(state.players[id]));
+
+  // NPC electorate: approval decides the incumbent/challenger split,
+  // campaign support decides the split within each side
+  const approval = state.government.approval.overall / 100;
+  const sides: [string[], number][] = incumbents.length > 0 && challengers.length > 0
+    ? [[incumbents, approval], [challengers, 1 - approval]]
+    : [[candidates, 1]];
+  for (const [side, share] of sides) {
+    const sideSupport = side.reduce((sum, id) => sum + support(id), 0);
+    for (const id of side) {
+      tally[id] += NPC_ELECTORATE * share * (support(id) / sideSupport);
     }
+  }
 
-    // voting â†’ active or rejected (after 1 tick of voting)
-    if (law.status === "voting") {
-      const totalVotes = law.votes.for + law.votes.against;
-      if (totalVotes > 0 && law.votes.for > law.votes.against) {
-        law.status = "active";
-        law.activated_tick = state.meta.tick;
-        state.government.active_law_count++;
-        activated++;
-      } else if (totalVotes > 0) {
-        law.status = "rejected";
-        rejected++;
+  // Player ballots: endorsements are binding, the undeclared follow
+  // their faction's approval of the government
+  let turnout = 0;
+  let counter = 0;
+  if (candidates.length > 0) {
+    for (const voter of Object.values(state.players)) {
+      if (!voter.alive || voter.role === "politician") continue;
+
+      const isBusiness = voter.role === "business_owner";
+      const weight = 1 + voter.hidden_stats.influence * (isBusiness ? 0.1 : 0.05);
+
+      let choice = campaign.endorsements[voter.id];
+      if (!choice || !(choice in tally)) {
+        const factionApproval = isBusiness
+          ? state.government.approval.business
+          : state.government.approval.citizens;
+        const backsGovernment = seededRandom(state.meta.seed, 4000 + counter++) * 100 < factionApproval;
+        const pool = (backsGovernment && incumbents.length > 0) || challengers.length === 0
+          ? incumbents
+          : challengers;
+        choice = strongest(pool);
       }
-      // If no votes at all, stays in voting for one more tick
-    }
 
-    // Active laws with judiciary interpretation â€” apply modifiers
-    if (law.status === "active" && law.judiciary_interpretation) {
-      const interp = law.judiciary_interpretation;
-      if (!interp.rejected_by_core && interp.implementation?.modifiers) {
-        const results = applyModifiers(state, interp.implementation.modifiers, `law:${law.id}`);
-        // Check if any critical modifier was rejected
-        const anyRejected = results.some(r => !r.applied);
-        if (anyRejected) {
-          interp.rejected_by_core = true;
-          // Law stays active but has no effect
-        }
-      }
+      tally[choice] += weight;
+      turnout++;
     }
   }
 
-  return { activated, rejected };
+  // Half the field (rounded up) takes office
+  const ranked = [...candidates].sort(
+    (a, b) => tally[b] - tally[a] || support(b) - support(a) || a.localeCompare(b)
+  );
+  const seats = Math.max(1, Math.ceil(candidates.length / 2));
+
+  return {
+    tick: state.meta.tick,
+    tally,
+    winners: ranked.slice(0, seats),
+    losers: ranked.slice(seats),
+    turnout,
+  };
+}
+
+function processElections(state: WorldState): ElectionResult | null {
+  const gov = state.government;
+  const tick = state.meta.tick;
+
+  // First tick of a new server (or legacy state): put an election on the calendar
+  if (gov.election_tick === null || gov.election_tick === undefined) {
+    gov.election_tick = tick + ELECTION_INTERVAL_TICKS;
+    gov.campaign = null;
+    gov.last_election = gov.last_election ?? null;
+    return null;
+  }
+
+  if (!gov.campaign && tick >= gov.election_tick - CAMPAIGN_TICKS) {
+    gov.campaign = openCampaign(state);
+  }
+
+  if (tick < gov.election_tick) return null;
+
+  const result = countBallots(state, gov.campaign ?? openCampaign(state));
+
+  for (const id of result.winners) {
+    const player = state.players[id];
+    player.role_data.politician.in_office = true;
+    player.role_data.politician.defeats = 0;
+    player.hidden_stats.influence = Math.min(100, player.hidden_stats.influence + 5);
+    player.hidden_stats.reputation += 2;
+  }
+  for (const id of result.losers) {
+    const player = state.players[id];
+    const prd = player.role_data.politician;
+    prd.in_office = false;
+    prd.defeats = (prd.defeats ?? 0) + 1;
+    player.hidden_stats.influence = Math.max(0, player.hidden_stats.influence - 5);
+    if (prd.defeats >= MAX_ELECTION_DEFEATS) eliminatePlayer(state, player, "lost_election");
+  }
+
+  gov.last_election = result;
+  gov.campaign = null;
+  gov.election_tick = tick + ELECTION_INTERVAL_TICKS;
+
+  return result;
+}
+
+/** One-line summary of an election for events and the historical record */
+function describeElection(state: WorldState, result: ElectionResult): string {
+  const names = (ids: string[]) => ids.map(id => state.players[id]?.name ?? id).join(", ");
+  if (result.winners.length === 0) {
+    return `Election held at tick ${result.tick} with no candidates on the ballot`;
+  }
+  const unseated = result.losers.length > 0 ? `; unseated: ${names(result.losers)}` : "";
+  return `Election at tick ${result.tick} seats ${names(result.winners)}${unseated}`;
 }
 
 // ============================================================================
@@ -925,11 +3084,12 @@ function checkThresholds(state: WorldState): GameEvent[] {
 
     if (!triggered) continue;
 
-    // Check cooldown
-    const lastTick = triggerCooldowns.get(trigger.event_type) ?? -Infinity;
+    // Check cooldown. Lives in state, so other servers and isolate restarts can't disturb it
+    const cooldowns = (state.meta.trigger_cooldowns ??= {});
+    const lastTick = cooldowns[trigger.id] ?? -Infinity;
     if (state.meta.tick - lastTick < trigger.cooldown_ticks) continue;
 
-    triggerCooldowns.set(trigger.event_type, state.meta.tick);
+    cooldowns[trigger.id] = state.meta.tick;
 
     events.push({
       id: seededUUID(state.meta.seed, 9000 + counter++),
@@ -1014,6 +3174,85 @@ function processEvents(state: WorldState): { applied: number; rejected: number }
   return { applied, rejected };
 }
 
+// ============================================================================
+// PERCEPTION
+// ============================================================================
+// Works out how a player's view is distorted. Seeded per player and per tick,
+// so the same player asking twice in a tick sees the same thing.
+
+interface Perception {
+  seed: number;
+  market_noise: number;    // multipliers on the baseline noise magnitudes
+  politics_noise: number;
+  diet: string[] | null;   // biases a movement member reads; null = reads everything
+  rumor_reach: number;
+  flattery: number;        // approval points a lobbied politician's analysts add
+}
+
+function perceptionOf(state: WorldState, player: Player, noiseSeed: number): Perception {
+  const seed = createHash("sha256").update(`${noiseSeed}-${player.id}`).digest().readUInt32BE(0);
+  const { influence, reputation } = player.hidden_stats;
+  const clarity = Math.max(MIN_CLARITY, 1 - influence / 200 - Math.max(0, reputation) / 400);
+  const business = player.role === "business_owner";
+  const movement = movementOf(state, player);
+  const lobbyMoney = player.role_data.politician?.lobby_money_received ?? 0;
+
+  return {
+    seed,
+    market_noise: clarity * (business ? BUSINESS_MARKET_NOISE : 1),
+    politics_noise: clarity * (business ? BUSINESS_POLITICS_NOISE : 1),
+    diet: movement ? MEDIA_DIET[movement.type] ?? null : null,
+    rumor_reach: Math.min(1, RUMOR_REACH + influence / 250 + (movement ? 0.2 : 0)),
+    flattery: Math.min(MAX_FLATTERY, lobbyMoney * FLATTERY_PER_LOBBY),
+  };
+}
+
+/** Members read their movement's outlets first and miss some of the rest */
+function perceivedHeadlines(state: WorldState, perception: Perception): { id: string; text: string; bias: string }[] {
+  const { diet, seed } = perception;
+  return state.media_state.headlines
+    .filter((h, i) => !diet || diet.includes(h.bias) || seededRandom(seed, 400 + i) < OFF_DIET_KEEP)
+    .sort((a, b) => (diet ? Number(diet.includes(b.bias)) - Number(diet.includes(a.bias)) : 0))
+    .map(h => ({ id: h.id, text: h.text, bias: h.bias }));
+}
+
+/** Rumors travel by word of mouth; the well connected hear more of them */
+function perceivedRumors(state: WorldState, perception: Perception): { id: string; text: string }[] {
+  return state.media_state.rumors
+    .filter((r, i) => seededRandom(perception.seed, 500 + i) < perception.rumor_reach)
+    .map(r => ({ id: r.id, text: r.text }));
+}
+
+// ============================================================================
+// FACT-CHECKING
+// ============================================================================
+// Stories can be checked for as long as the archive keeps them. Players only
+// ever learn a band, never the score behind it.
+
+interface Story {
+  id: string;
+  kind: FactCheck["kind"];
+  text: string;
+  truth_score: number | null;
+}
+
+/** A headline or rumor still within NEWS_ARCHIVE_TICKS, by id */
+function findStory(state: WorldState, id: string): Story | null {
+  const media = state.media_state;
+
+  const headline = [...media.headlines, ...(media.archive ?? [])].find(h => h.id === id);
+  if (headline) return { id, kind: "headline", text: headline.text, truth_score: headline.truth_score ?? null };
+
+  const rumor = [...media.rumors, ...(media.rumor_archive ?? [])].find(r => r.id === id);
+  if (rumor) return { id, kind: "rumor", text: rumor.text, truth_score: rumor.truth_score ?? null };
+  return null;
+}
+
+function truthBand(truth: number | null): TruthBand {
+  if (truth === null) return "unverifiable";
+  return truth >= 0.8 ? "accurate" : truth >= TRUE_ENOUGH ? "spun" : truth >= 0.2 ? "distorted" : "fabricated";
+}
+
 // ============================================================================
 // PLAYER VIEW GENERATION
 // ============================================================================
@@ -1023,62 +3262,205 @@ interface PlayerView {
   tick: number;
   role: string;
   wealth: number;
-  headlines: { text: string; bias: string }[];
-  rumors: { text: string }[];
+  headlines: { id: string; text: string; bias: string }[];
+  rumors: { id: string; text: string }[];
+  fact_checks: FactCheck[];       // the player's own findings, newest last
   market_signals: {
     price_trend: "rising" | "falling" | "stable";
     availability: "abundant" | "normal" | "scarce" | "shortage";
+    firms: FirmSignal[];
   };
   government_signals: {
     approval_vague: "popular" | "mixed" | "unpopular" | "crisis";
     active_laws: number;
+    election: ElectionSignal;
+    voting_rules: VotingRules;
+    bills: BillSignal[];
   };
   movement_id: string | null;
+  movement: MovementSignal | null;
+  last_tick_report: TickReport | null;
   available_actions: string[];
   // Role-specific
   role_specific: Record<string, any>;
 }
 
+interface ElectionSignal {
+  phase: "scheduled" | "campaign";
+  ticks_until: number | null;
+  candidates: { id: string; name: string }[]; // on the ballot, during the campaign
+  last_winners: string[];  // names seated at the last election
+  last_margin: "landslide" | "comfortable" | "narrow" | null;
+}
+
+/** A firm as shoppers see it: a price tag and a shelf, not its books */
+interface FirmSignal {
+  id: string;
+  name: string;
+  price: "cheap" | "fair" | "pricey";   // against the other firms
+  stock: "plenty" | "low" | "sold out";
+}
+
+/** What a member knows of their own movement */
+interface MovementSignal {
+  id: string;
+  name: string;
+  type: Movement["type"];
+  leader: string | null;          // leader's name
+  is_leader: boolean;
+  members: number;
+  demands: string[];
+  action_ready: boolean;          // collective action is off cooldown
+}
+
+/** Bills before the legislature. Tallies stay hidden until counted. */
+interface BillSignal {
+  id: string;
+  kind: Law["kind"];
+  category: LawCategory;
+  excerpt: string;
+  status: "proposed" | "voting";
+  stage: VotingStage | null;
+  closes_in: number | null;       // ticks until the current stage is counted
+  needs: "majority" | "supermajority";
+  can_vote: boolean;              // eligible in this stage and not yet voted
+}
+
+/** How the player's actions went last tick; reported the way gossip reports things */
+interface TickReport {
+  tick: number;
+  actions: { action: string; result: "done" | "failed" | "refused" | "unclear"; note: string }[];
+}
+
+function lastTickReport(state: WorldState, player: Player): TickReport | null {
+  const last = player.actions_history[player.actions_history.length - 1];
+  if (!last || last.tick !== state.meta.tick - 1) return null;
+
+  return {
+    tick: last.tick,
+    actions: last.actions.map(a => {
+      const action = findAction(a.action_type, player.role)?.label ?? a.action_type;
+      if (a.rejected) return { action, result: "refused", note: `It never got going: ${a.rejected}.` };
+      if (!a.outcome) return { action, result: "unclear", note: "Nobody can say what came of it." };
+      return a.outcome.success
+        ? { action, result: "done", note: `By most accounts, ${a.outcome.effect}.` }
+        : { action, result: "failed", note: `It came to nothing: ${a.outcome.reason}.` };
+    }),
+  };
+}
+
 function generatePlayerView(state: WorldState, playerId: string, noiseSeed: number): PlayerView | null {
   const player = state.players[playerId];
   if (!player || !player.alive) return null;
 
+  const perception = perceptionOf(state, player, noiseSeed);
   const noise = (base: number, magnitude: number, index: number) => {
-    const n = seededRandom(noiseSeed, index);
+    const n = seededRandom(perception.seed, index);
     return base + (n - 0.5) * 2 * magnitude;
   };
 
   // Price trend with noise
   const priceChange = state.economy.market.price_index - 1.0;
-  const noisyChange = noise(priceChange, 0.1, 1);
+  const noisyChange = noise(priceChange, 0.1 * perception.market_noise, 1);
   const priceTrend = noisyChange > 0.05 ? "rising" : noisyChange < -0.05 ? "falling" : "stable";
 
   // Availability with noise
   const supplyRatio = state.economy.market.supply / Math.max(1, state.economy.market.demand);
-  const noisyRatio = noise(supplyRatio, 0.15, 2);
+  const noisyRatio = noise(supplyRatio, 0.15 * perception.market_noise, 2);
   const availability = noisyRatio > 1.3 ? "abundant" : noisyRatio > 0.8 ? "normal" : noisyRatio > 0.5 ? "scarce" : "shortage";
 
   // Approval vague
-  const noisyApproval = noise(state.government.approval.overall, 10, 3);
+  const noisyApproval = noise(state.government.approval.overall, 10 * perception.politics_noise, 3);
   const approvalVague = noisyApproval > 65 ? "popular" : noisyApproval > 40 ? "mixed" : noisyApproval > 20 ? "unpopular" : "crisis";
 
-  // Filter headlines â€” citizens see biased headlines, business owners see market-relevant ones
-  const headlines = state.media_state.headlines.map(h => ({ text: h.text, bias: h.bias }));
-  const rumors = state.media_state.rumors.map(r => ({ text: r.text }));
+  // Each player reads their own papers and hears their own rumors
+  const headlines = perceivedHeadlines(state, perception);
+  const rumors = perceivedRumors(state, perception);
+
+  // Shoppers compare firms by price tag and shelf, never by sales
+  const firmPlayers = Object.values(state.players).filter(p => p.alive && p.role === "business_owner");
+  const meanPrice = firmPlayers.reduce((sum, p) => sum + (p.role_data.business_owner?.price ?? 1), 0) / Math.max(1, firmPlayers.length);
+  const firms: FirmSignal[] = firmPlayers.map(p => {
+    const rd = p.role_data.business_owner;
+    const price = rd?.price ?? 1;
+    const inventory = rd?.inventory ?? 0;
+    return {
+      id: p.id,
+      name: p.name,
+      price: price < meanPrice * 0.9 ? "cheap" : price > meanPrice * 1.1 ? "pricey" : "fair",
+      stock: inventory < 1 ? "sold out" : inventory < (rd?.production_capacity ?? 0) ? "low" : "plenty",
+    };
+  });
 
-  // Available actions per role
-  const actionsByRole: Record<string, string[]> = {
-    citizen: ["work", "consume", "vote_law", "join_movement", "leave_movement"],
-    business_owner: ["produce", "set_wages", "lobby", "evade_taxes", "comply_taxes"],
-    politician: ["propose_law", "vote_law_politician", "allocate_budget", "publish_statement"],
+  // Election calendar and results are public, but only names and a vague margin
+  const gov = state.government;
+  const nameOf = (id: string) => state.players[id]?.name ?? "unknown";
+  const lastElection = gov.last_election ?? null;
+  let lastMargin: ElectionSignal["last_margin"] = null;
+  if (lastElection && lastElection.winners.length > 0) {
+    const votes = Object.values(lastElection.tally).sort((a, b) => b - a);
+    const total = votes.reduce((sum, v) => sum + v, 0);
+    const lead = total > 0 ? (votes[0] - (votes[1] ?? 0)) / total : 1;
+    lastMargin = lead > 0.3 ? "landslide" : lead > 0.1 ? "comfortable" : "narrow";
+  }
+  const election: ElectionSignal = {
+    phase: gov.campaign ? "campaign" : "scheduled",
+    ticks_until: gov.election_tick != null ? Math.max(0, gov.election_tick - state.meta.tick) : null,
+    candidates: gov.campaign
+      ? Object.keys(gov.campaign.candidates).map(id => ({ id, name: nameOf(id) }))
+      : [],
+    last_winners: lastElection ? lastElection.winners.map(nameOf) : [],
+    last_margin: lastMargin,
   };
 
+  // Bills and the rules they are voted under are public record
+  const rules = votingRules(state);
+  const bills: BillSignal[] = state.laws
+    .filter(l => l.status === "proposed" || l.status === "voting")
+    .map(l => ({
+      id: l.id,
+      kind: l.kind ?? "law",
+      category: l.category ?? "general",
+      excerpt: l.original_text.slice(0, 140),
+      status: l.status as BillSignal["status"],
+      stage: l.stage ?? null,
+      closes_in: l.status === "voting" && l.voting_opened_tick != null
+        ? Math.max(0, l.voting_opened_tick + rules.voting_window_ticks - state.meta.tick)
+        : null,
+      needs: rules.supermajority_categories.includes(l.category ?? "general") ? "supermajority" : "majority",
+      can_vote: l.status === "voting" && !!l.stage && canVoteInStage(player, l.stage) && !(l.voter_ids ?? []).includes(player.id),
+    }));
+
+  // Members see their own movement in full; strength stays hidden
+  const ownMovement = movementOf(state, player);
+  const movement: MovementSignal | null = ownMovement
+    ? {
+        id: ownMovement.id,
+        name: ownMovement.name,
+        type: ownMovement.type,
+        leader: ownMovement.leader_id ? nameOf(ownMovement.leader_id) : null,
+        is_leader: ownMovement.leader_id === player.id,
+        members: ownMovement.member_player_ids.length,
+        demands: [...ownMovement.demands],
+        action_ready: !ownMovement.last_action
+          || state.meta.tick - ownMovement.last_action.tick >= MOVEMENT_ACTION_COOLDOWN,
+      }
+    : null;
+
   // Role-specific visible data
   let roleSpecific: Record<string, any> = {};
   if (player.role === "citizen") {
     const rd = player.role_data.citizen;
+    const openings = Object.values(state.players)
+      .filter(p => p.alive && p.role === "business_owner")
+      .reduce((sum, p) => sum + (p.role_data.business_owner?.job_openings ?? 0), 0);
     roleSpecific = {
       employed: !!rd?.employer_id,
+      job_search: rd?.employer_id ? "not looking" : rd?.job_application ? "applied" : "idle",
+      tax_paid: Math.round((rd?.tax_paid ?? 0) * 100) / 100,
+      on_welfare: (rd?.welfare_received ?? 0) > 0,
+      // Openings are hinted, never counted
+      job_market: openings === 0 ? "frozen" : openings <= 2 ? "tight" : "hiring",
       // Satisfaction is vaguely hinted, not numeric
       mood: (rd?.satisfaction ?? 50) > 60 ? "content" : (rd?.satisfaction ?? 50) > 35 ? "uneasy" : "distressed",
     };
@@ -1086,19 +3468,27 @@ function generatePlayerView(state: WorldState, playerId: string, noiseSeed: numb
     const rd = player.role_data.business_owner;
     roleSpecific = {
       employees: rd?.employees ?? 0,
+      open_positions: rd?.job_openings ?? 0,
       production: rd?.production_capacity ?? 0,
       wage_level: rd?.wage_level ?? 1,
+      price: rd?.price ?? 1,
+      inventory: Math.round(rd?.inventory ?? 0),
+      last_sales: Math.round(rd?.last_sales ?? 0),
+      tax_paid: Math.round((rd?.tax_paid ?? 0) * 100) / 100,
+      // Rivals' books stay closed; market share is only hinted
+      market_position: (rd?.market_share ?? 0) > 0.5 ? "dominant" : (rd?.market_share ?? 0) > 0.3 ? "leading" : (rd?.market_share ?? 0) > 0.1 ? "competitive" : "marginal",
       // Strike risk is hinted vaguely
       labor_mood: (rd?.strike_risk ?? 0) < 0.3 ? "stable" : (rd?.strike_risk ?? 0) < 0.6 ? "restless" : "volatile",
     };
   } else if (player.role === "politician") {
     const prd = player.role_data.politician;
     roleSpecific = {
+      in_office: isInOffice(player),
       laws_proposed: prd?.laws_proposed ?? 0,
       laws_passed: prd?.laws_passed ?? 0,
-      // Partial analytics (with noise!)
-      approval_estimate: Math.round(noise(state.government.approval.overall, 8, 4)),
-      unemployment_estimate: Math.round(noise(state.economy.unemployment, 3, 5) * 10) / 10,
+      // Partial analytics (with noise!), kinder the more lobby money has come in
+      approval_estimate: Math.round(Math.min(100, noise(state.government.approval.overall, 8 * perception.politics_noise, 4) + perception.flattery)),
+      unemployment_estimate: Math.round(Math.max(0, noise(state.economy.unemployment, 3 * perception.market_noise, 5) - perception.flattery / 5) * 10) / 10,
     };
   }
 
@@ -1108,21 +3498,292 @@ function generatePlayerView(state: WorldState, playerId: string, noiseSeed: numb
     wealth: Math.round(player.visible_stats.wealth * 100) / 100,
     headlines,
     rumors,
-    market_signals: { price_trend: priceTrend, availability },
-    government_signals: { approval_vague: approvalVague, active_laws: state.government.active_law_count },
+    fact_checks: (player.fact_checks ?? []).filter(f => f.tick > state.meta.tick - NEWS_ARCHIVE_TICKS),
+    market_signals: { price_trend: priceTrend, availability, firms },
+    government_signals: {
+      approval_vague: approvalVague,
+      active_laws: state.government.active_law_count,
+      election,
+      voting_rules: rules,
+      bills,
+    },
     movement_id: player.visible_stats.movement_id,
-    available_actions: actionsByRole[player.role] ?? [],
+    movement,
+    last_tick_report: lastTickReport(state, player),
+    available_actions: listActions(player.role).map(a => a.type),
     role_specific: roleSpecific,
   };
 }
 
+/** What an eliminated player still sees: the public record, and when they may return */
+interface GhostView {
+  tick: number;
+  role: string;
+  eliminated_tick: number | null;
+  reason: EliminationReason | null;
+  rejoin_in: number;                 // ticks until rejoin is allowed; 0 = now
+  headlines: { text: string; bias: string }[];
+  rumors: { text: string }[];
+  approval_vague: PlayerView["government_signals"]["approval_vague"];
+  era: string | null;
+  legacy_title: string | null;       // the Historian's title, carried into the next life
+}
+
+function generateGhostView(state: WorldState, playerId: string, noiseSeed: number): GhostView | null {
+  const player = state.players[playerId];
+  if (!player || player.alive) return null;
+
+  const noisyApproval = state.government.approval.overall + (seededRandom(noiseSeed, 3) - 0.5) * 20;
+  const approvalVague = noisyApproval > 65 ? "popular" : noisyApproval > 40 ? "mixed" : noisyApproval > 20 ? "unpopular" : "crisis";
+
+  return {
+    tick: state.meta.tick,
+    role: player.role,
+    eliminated_tick: player.eliminated_tick ?? null,
+    reason: player.elimination_reason ?? null,
+    rejoin_in: ticksUntilRejoin(state, player),
+    headlines: state.media_state.headlines.map(h => ({ text: h.text, bias: h.bias })),
+    rumors: state.media_state.rumors.map(r => ({ text: r.text })),
+    approval_vague: approvalVague,
+    era: state.history.eras[state.history.eras.length - 1]?.name ?? null,
+    legacy_title: state.history.player_reputations?.[playerId]?.title ?? null,
+  };
+}
+
+// ============================================================================
+// LAW VIEW GENERATION
+// ============================================================================
+// Laws are public record, but tallies are not. While a stage is open only a
+// noisy sense of turnout leaks out; once counted, the result is reported in
+// words. Interpretations are published once the Judiciary has ruled, without
+// the mechanics behind them.
+
+interface LawView {
+  id: string;
+  kind: Law["kind"];
+  target_law_id: string | null;
+  category: LawCategory;
+  text: string;
+  status: Law["status"];
+  proposed_by: string;            // name
+  proposed_tick: number;
+  stage: VotingStage | null;
+  closes_in: number | null;
+  needs: "majority" | "supermajority";
+  turnout: "light" | "moderate" | "heavy" | null;
+  result: { outcome: "passed" | "failed"; support: "overwhelming" | "broad" | "split" | "weak" | "none" } | null;
+  can_vote: boolean;
+  activated_tick: number | null;
+  amended_tick: number | null;
+  repealed_tick: number | null;
+  expires_in: number | null;      // ticks until a sunset clause lapses
+  fiscal: FiscalChange | null;    // fast-track bills: the figure they set
+  interpretation: { text: string; ambiguities: string[]; in_force: boolean } | null;
+}
+
+const COUNTED_STATUSES: Law["status"][] = ["active", "enacted", "repealed", "rejected", "invalidated"];
+
+function generateLawView(state: WorldState, law: Law, playerId: string, noiseSeed: number): LawView {
+  const rules = votingRules(state);
+  const player = state.players[playerId];
+  const voting = law.status === "voting" && !!law.stage;
+  const index = state.laws.indexOf(law);
+
+  let turnout: LawView["turnout"] = null;
+  if (voting) {
+    const eligible = Object.values(state.players).filter(p => canVoteInStage(p, law.stage!)).length;
+    const share = eligible > 0 ? (law.voter_ids ?? []).length / eligible : 0;
+    const noisy = share + (seededRandom(noiseSeed, 100 + index) - 0.5) * 0.3;
+    turnout = noisy > 0.6 ? "heavy" : noisy > 0.25 ? "moderate" : "light";
+  }
+
+  let result: LawView["result"] = null;
+  if (COUNTED_STATUSES.includes(law.status) && law.stage) {
+    const decided = law.votes.for + law.votes.against;
+    const share = decided > 0 ? law.votes.for / decided : 0;
+    result = {
+      outcome: law.status === "rejected" ? "failed" : "passed",
+      support: decided === 0 ? "none" : share > 0.8 ? "overwhelming" : share > 0.6 ? "broad" : share > 0.4 ? "split" : "weak",
+    };
+  }
+
+  const interp = law.judiciary_interpretation;
+  return {
+    id: law.id,
+    kind: law.kind ?? "law",
+    target_law_id: law.target_law_id ?? null,
+    category: law.category ?? "general",
+    text: law.original_text,
+    status: law.status,
+    proposed_by: state.players[law.proposed_by]?.name ?? "unknown",
+    proposed_tick: law.proposed_tick,
+    stage: law.stage ?? null,
+    closes_in: voting && law.voting_opened_tick != null
+      ? Math.max(0, law.voting_opened_tick + rules.voting_window_ticks - state.meta.tick)
+      : null,
+    needs: rules.supermajority_categories.includes(law.category ?? "general") ? "supermajority" : "majority",
+    turnout,
+    result,
+    can_vote: voting && !!player && canVoteInStage(player, law.stage!) && !(law.voter_ids ?? []).includes(playerId),
+    activated_tick: law.activated_tick,
+    amended_tick: law.amended_tick ?? null,
+    repealed_tick: law.repealed_tick,
+    expires_in: law.status === "active" && law.sunset_ticks != null && law.activated_tick !== null
+      ? Math.max(0, law.activated_tick + law.sunset_ticks - state.meta.tick)
+      : null,
+    fiscal: law.fiscal ? { ...law.fiscal } : null,
+    interpretation: interp
+      ? { text: interp.interpretation, ambiguities: interp.ambiguities ?? [], in_force: !interp.rejected_by_core }
+      : null,
+  };
+}
+
+/** Newest first, optionally filtered by status */
+function generateLawList(state: WorldState, playerId: string, noiseSeed: number, status?: string): LawView[] {
+  return state.laws
+    .filter(l => !status || l.status === status)
+    .map(l => generateLawView(state, l, playerId, noiseSeed))
+    .reverse();
+}
+
+// ============================================================================
+// MOVEMENT VIEW GENERATION
+// ============================================================================
+// Movements recruit in public: names, causes, demands and leaders are known.
+// How many have joined and how much weight they carry is only guessed at,
+// through noisy buckets. Members see their own movement in the player view.
+
+interface MovementListing {
+  id: string;
+  name: string;
+  type: Movement["type"];
+  demands: string[];
+  leader: string | null;          // name
+  founded_by: string | null;      // name; null when the movement rose on its own
+  created_tick: number;
+  size: "handful" | "growing" | "large" | "mass";
+  strength: "fringe" | "visible" | "strong" | "dominant";
+  recently_active: boolean;       // held a strike, march or boycott within the cooldown
+  is_member: boolean;
+}
+
+function generateMovementList(state: WorldState, playerId: string, noiseSeed: number): MovementListing[] {
+  const nameOf = (id: string | null | undefined) => (id ? state.players[id]?.name ?? "unknown" : null);
+
+  return state.society.movements.map((m, i) => {
+    const members = m.member_player_ids.filter(id => state.players[id]?.alive).length;
+    const noisySize = members + (seededRandom(noiseSeed, 200 + i) - 0.5) * 2;
+    const noisyStrength = m.strength + (seededRandom(noiseSeed, 300 + i) - 0.5) * 0.2;
+
+    return {
+      id: m.id,
+      name: m.name,
+      type: m.type,
+      demands: [...m.demands],
+      leader: nameOf(m.leader_id),
+      founded_by: nameOf(m.founded_by),
+      created_tick: m.created_tick,
+      size: noisySize > 8 ? "mass" : noisySize > 4 ? "large" : noisySize > 1.5 ? "growing" : "handful",
+      strength: noisyStrength > 0.7 ? "dominant" : noisyStrength > 0.45 ? "strong" : noisyStrength > 0.2 ? "visible" : "fringe",
+      recently_active: !!m.last_action && state.meta.tick - m.last_action.tick < MOVEMENT_ACTION_COOLDOWN,
+      is_member: m.member_player_ids.includes(playerId),
+    };
+  });
+}
+
+// ============================================================================
+// NEWS ARCHIVE
+// ============================================================================
+// Each tick's headlines go into the archive with the articles written on
+// them. Players page through it by tick; truth scores stay behind.
+
+/** Files this tick's headlines and articles; articles on an unknown headline are dropped */
+function archiveNews(state: WorldState, headlines: ArchivedHeadline[], articles: MediaOutput["articles"]): void {
+  const media = state.media_state;
+  const tick = state.meta.tick;
+  const cutoff = tick - NEWS_ARCHIVE_TICKS;
+
+  media.archive = [...(media.archive ?? []).filter(h => h.tick > cutoff), ...headlines];
+  media.articles = [
+    ...(media.articles ?? []).filter(a => a.tick > cutoff),
+    ...articles
+      .filter(a => headlines[a.headline_index])
+      .map((a, i) => ({
+        id: seededUUID(state.meta.seed, 5500 + i),
+        tick,
+        headline_id: headlines[a.headline_index].id,
+        body: a.body,
+        bias: a.bias,
+        mentions_players: a.mentions_players ?? [],
+      })),
+  ];
+}
+
+/** Rumors are kept as long as headlines, so a stale one can still be checked */
+function archiveRumors(state: WorldState, rumors: ArchivedRumor[]): void {
+  const cutoff = state.meta.tick - NEWS_ARCHIVE_TICKS;
+  state.media_state.rumor_archive = [...(state.media_state.rumor_archive ?? []).filter(r => r.tick > cutoff), ...rumors];
+}
+
+interface NewsEntry {
+  headline_id: string;
+  tick: number;
+  text: string;
+  bias: string;
+  articles: { id: string; body: string; bias: string; mentions: string[] }[]; // mentions are names
+}
+
+interface NewsPage {
+  entries: NewsEntry[];
+  total: number;                  // entries from fromTick on, across all pages
+  next_offset: number | null;
+}
+
+/**
+ * Oldest first from fromTick, so a reader can follow a story forward. Deliberately
+ * unfiltered by perception: this is the public record, not what reached anyone live.
+ */
+function generateNewsArchive(state: WorldState, fromTick: number, offset: number = 0, limit: number = NEWS_PAGE_SIZE): NewsPage {
+  const nameOf = (id: string) => state.players[id]?.name ?? "unknown";
+  const size = Math.max(1, Math.min(MAX_NEWS_PAGE_SIZE, Math.floor(limit)));
+  const start = Math.max(0, Math.floor(offset));
+
+  const matching = (state.media_state.archive ?? []).filter(h => h.tick >= fromTick);
+  const entries = matching.slice(start, start + size).map(h => ({
+    headline_id: h.id,
+    tick: h.tick,
+    text: h.text,
+    bias: h.bias,
+    articles: (state.media_state.articles ?? [])
+      .filter(a => a.headline_id === h.id)
+      .map(a => ({ id: a.id, body: a.body, bias: a.bias, mentions: a.mentions_players.map(nameOf) })),
+  }));
+
+  return {
+    entries,
+    total: matching.length,
+    next_offset: start + size < matching.length ? start + size : null,
+  };
+}
+
 // ============================================================================
 // MAIN TICK PROCESSOR
 // ============================================================================
 
+/**
+ * Options for processTick. `now` pins the wall clock so a replay reproduces
+ * the recorded tick_deadline and timestamp, and therefore the state hash;
+ * `actionOrder` does the same for the order players acted in.
+ */
+interface TickOptions {
+  now?: Date;
+  actionOrder?: ActionOrder; // replays pass the logged order back in
+}
+
 export async function processTick(
   state: WorldState,
   aiSystems: AISystemRegistry,
+  options: TickOptions = {},
 ): Promise<{ state: WorldState; log: TickLogEntry }> {
 
   const tick = state.meta.tick;
@@ -1135,8 +3796,42 @@ export async function processTick(
 
   // ---- PHASE 2: Process player actions ----
   let actionsProcessed = 0;
+  let actionsRejected = 0;
   let actionsSkipped = 0;
 
+  const actionOrder = options.actionOrder ?? scheduleActions(state);
+  for (const { phase, players } of actionOrder) {
+    for (const id of players) {
+      const player = state.players[id];
+      if (!player?.alive) continue;
+
+      // A player's own actions within a phase keep the order they were submitted in
+      for (const action of player.actions_pending) {
+        const spec = findAction(action.action_type, player.role);
+        if (!spec || spec.phase !== phase) continue;
+
+        if (!hasValidParams(spec, action)) {
+          action.outcome = actionFailed(action.rejected ?? "its details did not hold up");
+          actionsRejected++;
+          continue;
+        }
+
+        // Re-checked here: earlier actions this tick may have spent the money or used the cooldown
+        const refusal = checkAction(state, player, spec, action.params);
+        if (refusal) {
+          action.rejected = refusal;
+          action.outcome = actionFailed(refusal);
+          actionsRejected++;
+          continue;
+        }
+
+        action.outcome = runProcessor(spec.type, state, player, action);
+        if (action.outcome.success) chargeAction(state, player, spec);
+        actionsProcessed++;
+      }
+    }
+  }
+
   for (const player of Object.values(state.players)) {
     if (!player.alive) continue;
 
@@ -1146,13 +3841,11 @@ export async function processTick(
     }
 
     for (const action of player.actions_pending) {
-      const processor = ACTION_PROCESSORS[action.action_type];
-      if (processor) {
-        processor(state, player, action);
-        actionsProcessed++;
-      } else {
-        console.warn(`[Tick ${tick}] Unknown action: ${action.action_type}`);
-      }
+      if (action.outcome || findAction(action.action_type, player.role)) continue;
+      console.warn(`[Tick ${tick}] Unknown action for ${player.role}: ${action.action_type}`);
+      action.rejected = "no such action";
+      action.outcome = actionFailed(action.rejected);
+      actionsRejected++;
     }
 
     // Archive actions
@@ -1163,22 +3856,66 @@ export async function processTick(
     player.actions_pending = [];
   }
 
-  console.log(`[Tick ${tick}] Actions: ${actionsProcessed} processed, ${actionsSkipped} players idle`);
+  console.log(`[Tick ${tick}] Actions: ${actionsProcessed} processed, ${actionsRejected} rejected, ${actionsSkipped} players idle`);
 
-  // ---- PHASE 3: Economic recalculation ----
+  // ---- PHASE 2b: Labour market ----
+  const labour = processLabourMarket(state);
+  console.log(`[Tick ${tick}] Labour: ${labour.hired} hired, ${labour.released} released`);
+
+  // ---- PHASE 2c: Movement leadership and strength ----
+  processMovements(state);
+
+  // ---- PHASE 2d: Goods market ----
+  clearMarket(state);
+
+  // ---- PHASE 2e: Taxes and welfare ----
+  runFiscalPass(state);
+
+  // ---- PHASE 3: Economic and hidden-stat recalculation ----
   recalculateEconomics(state);
+  processHiddenStats(state);
+
+  // ---- PHASE 3b: Corruption investigations ----
+  const exposures = runInvestigations(state);
+  state.events.push(...exposures);
+  if (exposures.length > 0) {
+    console.log(`[Tick ${tick}] Investigations: ${exposures.length} exposed`);
+  }
+
+  // ---- PHASE 3c: Bankruptcy and emigration ----
+  processDepartures(state);
 
   // ---- PHASE 4: Law lifecycle ----
   const lawResults = processLawLifecycle(state);
   console.log(`[Tick ${tick}] Laws: ${lawResults.activated} activated, ${lawResults.rejected} rejected`);
 
+  // ---- PHASE 4b: Elections ----
+  const election = processElections(state);
+  if (election) {
+    // Pre-validated like threshold events, so Media AI sees it this tick
+    state.events.push({
+      id: seededUUID(state.meta.seed, 9500),
+      source: "core_engine",
+      tick,
+      type: "election_triggered",
+      severity: election.losers.length > 0 ? 3 : 2,
+      status: "applied",
+      description: describeElection(state, election),
+      modifiers: [],
+      duration_ticks: null,
+      expires_tick: null,
+      narrative_hook: "the people have spoken",
+    });
+    console.log(`[Tick ${tick}] Election: ${election.winners.length} seated, ${election.losers.length} unseated`);
+  }
+
   // ---- PHASE 5: AI Evaluation ----
   state.meta.phase = "ai_evaluation";
 
   // Step 3: State Analyst
   try {
     const allActions = Object.values(state.players).flatMap(p =>
-      p.actions_history.find(h => h.tick === tick)?.actions ?? []
+      (p.actions_history.find(h => h.tick === tick)?.actions ?? []).filter(a => !a.rejected)
     );
     const analystOutput = await aiSystems.stateAnalyst({ state, actions: allActions });
     aiOutputs.state_analyst = analystOutput;
@@ -1205,16 +3942,9 @@ export async function processTick(
         rejected_by_core: false,
       };
 
-      // Immediately attempt to apply
-      if (judOut.implementation?.modifiers?.length) {
-        const results = applyModifiers(state, judOut.implementation.modifiers, `judiciary:${law.id}`);
-        if (results.some(r => !r.applied)) {
-          law.judiciary_interpretation.rejected_by_core = true;
-          // Roll back
-          for (const r of results) {
-            if (r.applied) setByPath(state, r.variable, r.old_value);
-          }
-        }
+      // Immediately attempt to apply; this is the only point a law can be voided
+      if (judOut.implementation?.modifiers?.length && !activateLawEffects(state, law)) {
+        law.judiciary_interpretation.rejected_by_core = true;
       }
 
       console.log(`[Tick ${tick}] Judiciary: law ${law.id.slice(0, 8)} â€” ${judOut.ambiguities.length} ambiguities`);
@@ -1225,13 +3955,29 @@ export async function processTick(
   aiOutputs.judiciary = judiciaryOutputs;
 
   // Step 5: Media AI
+  const leakEvents = pendingLeaks(state);
   try {
     const mediaOutput = await aiSystems.media({
       analyst: aiOutputs.state_analyst,
       judiciary: judiciaryOutputs,
+      leaks: leakEvents.map(e => ({
+        event_id: e.id,
+        player_ids: e.subject_player_ids ?? [],
+        player_names: (e.subject_player_ids ?? []).map(id => state.players[id]?.name ?? "unknown"),
+        description: e.description,
+        narrative_hook: e.narrative_hook,
+      })),
+      fact_checks: (state.media_state.fact_checks ?? []).map(f => ({
+        player_id: f.player_id,
+        player_name: state.players[f.player_id]?.name ?? "unknown",
+        stance: f.stance,
+        story: f.text,
+      })),
       state,
     });
     aiOutputs.media = mediaOutput;
+    for (const e of leakEvents) e.leaked = true;
+    state.media_state.fact_checks = [];
 
     // Update media state
     if (mediaOutput.headlines) {
@@ -1243,6 +3989,7 @@ export async function processTick(
         truth_score: h.truth_score,
         source_event_id: h.source_event_id,
       }));
+      archiveNews(state, state.media_state.headlines, mediaOutput.articles ?? []);
     }
     if (mediaOutput.rumors) {
       state.media_state.rumors = mediaOutput.rumors.map((r, i) => ({
@@ -1250,7 +3997,9 @@ export async function processTick(
         tick,
         text: r.text,
         credibility: r.credibility,
+        truth_score: typeof r.truth_score === "number" ? Math.max(0, Math.min(1, r.truth_score)) : null,
       }));
+      archiveRumors(state, state.media_state.rumors);
     }
 
     console.log(`[Tick ${tick}] Media: ${mediaOutput.headlines?.length ?? 0} headlines, ${mediaOutput.rumors?.length ?? 0} rumors`);
@@ -1279,11 +4028,12 @@ export async function processTick(
       }
     }
 
-    // Update protest pressure
-    if (polOutput.protest_prob > state.society.protest_pressure) {
+    // Update protest pressure, less whatever fear keeps at home
+    const protestProb = polOutput.protest_prob * (1 - fearSuppression(state));
+    if (protestProb > state.society.protest_pressure) {
       state.society.protest_pressure = clampToConstraints(
         "society.protest_pressure",
-        state.society.protest_pressure * 0.5 + polOutput.protest_prob * 0.5
+        state.society.protest_pressure * 0.5 + protestProb * 0.5
       );
     }
 
@@ -1291,13 +4041,20 @@ export async function processTick(
     for (const mvt of polOutput.movements ?? []) {
       if (mvt.action === "create" && mvt.name && mvt.type) {
         state.society.movements.push({
-          id: seededUUID(state.meta.seed, 7000 + state.society.movements.length),
+          id: newMovementId(state),
           name: mvt.name,
           type: mvt.type as Movement["type"],
           strength: 0.3,
-          demands: [],
+          demands: (Array.isArray(mvt.demands) ? mvt.demands : [])
+            .filter(d => typeof d === "string" && d.trim())
+            .slice(0, MAX_DEMANDS)
+            .map(d => d.trim().slice(0, MAX_DEMAND_LENGTH)),
           member_player_ids: [],
           created_tick: tick,
+          founded_by: null,
+          leader_id: null,
+          leader_backing: {},
+          last_action: null,
         });
       } else if (mvt.action === "strengthen" && mvt.id) {
         const m = state.society.movements.find(x => x.id === mvt.id);
@@ -1323,6 +4080,11 @@ export async function processTick(
     aiOutputs.crisis = crisisOutput;
 
     if (crisisOutput) {
+      // A named exposure is settled by the engine; a clean target leaves only the story
+      const target = state.players[crisisOutput.target_player_id ?? ""];
+      const exposes = crisisOutput.event_type === "corruption_exposed" && !!target?.alive &&
+        target.hidden_stats.corruption >= MIN_EXPOSABLE_CORRUPTION && !exposedThisTick(state, target.id);
+
       const crisisEvent: GameEvent = {
         id: seededUUID(state.meta.seed, 8000),
         source: "crisis",
@@ -1335,6 +4097,7 @@ export async function processTick(
         duration_ticks: crisisOutput.duration_ticks,
         expires_tick: null,
         narrative_hook: crisisOutput.narrative_hook,
+        ...(exposes ? { subject_player_ids: [target.id] } : {}),
       };
       state.events.push(crisisEvent);
       console.log(`[Tick ${tick}] Crisis: ${crisisOutput.event_type} (severity ${crisisOutput.severity})`);
@@ -1351,7 +4114,23 @@ export async function processTick(
   const eventResults = processEvents(state);
   console.log(`[Tick ${tick}] Events: ${eventResults.applied} applied, ${eventResults.rejected} rejected`);
 
-  // Step 8: Historian AI (non-blocking, no state mutation)
+  // A crisis exposure only lands if the crisis itself did
+  const crisisExposure = state.events.find(e => e.source === "crisis" && e.tick === tick && e.subject_player_ids?.length);
+  if (crisisExposure?.status === "applied") {
+    const subject = state.players[crisisExposure.subject_player_ids?.[0] ?? ""];
+    crisisExposure.description = `Crisis: ${exposeCorruption(state, subject)}`;
+  }
+
+  // Any revolution that applied this tick, from a threshold or Crisis AI, topples the government
+  if (state.events.some(e => e.type === "revolution" && e.tick === tick && e.status === "applied")) {
+    const toppled = overthrowGovernment(state);
+    console.log(`[Tick ${tick}] Revolution: ${toppled} office holders overthrown`);
+  }
+
+  const eliminations = eliminationEvents(state);
+  state.events.push(...eliminations);
+
+  // Step 8: Historian AI (non-blocking; writes only history and historical_legacy)
   try {
     const tickEvents = state.events.filter(e => e.tick === tick);
     const historianOutput = await aiSystems.historian({ state, tick_events: tickEvents });
@@ -1377,19 +4156,26 @@ export async function processTick(
         ...state.history.player_reputations,
         ...historianOutput.player_reputations,
       };
+      recordLegacy(state, historianOutput.player_reputations);
     }
   } catch (err) {
     console.error(`[Tick ${tick}] Historian AI FAILED:`, err);
     aiOutputs.historian = null;
   }
 
+  // Elections always make the record: in the era they opened, or the one still running
+  if (election) {
+    const era = state.history.eras[state.history.eras.length - 1];
+    if (era) era.key_events.push(describeElection(state, election));
+  }
+
   // ---- PHASE 7: Finalize ----
   state.meta.tick++;
   state.meta.phase = "resolved";
   state.meta.seed = state.meta.seed + 1; // advance seed deterministically
 
   // Compute next deadline
-  const now = new Date();
+  const now = options.now ?? new Date();
   const nextDeadline = new Date(now.getTime() + state.meta.tick_interval_hours * 60 * 60 * 1000);
   state.meta.tick_deadline = nextDeadline.toISOString();
 
@@ -1399,7 +4185,8 @@ export async function processTick(
     timestamp: now.toISOString(),
     actions_processed: actionsProcessed,
     actions_skipped: actionsSkipped,
-    events_applied: eventResults.applied + thresholdEvents.length,
+    action_order: actionOrder,
+    events_applied: eventResults.applied + thresholdEvents.length + exposures.length + eliminations.length + (election ? 1 : 0),
     events_rejected: eventResults.rejected,
     laws_activated: lawResults.activated,
     laws_rejected: lawResults.rejected,
@@ -1431,13 +4218,31 @@ export {
   Modifier,
   PlayerView,
   generatePlayerView,
+  generateGhostView,
+  generateLawView,
+  generateLawList,
+  generateMovementList,
+  generateNewsArchive,
+  computeFinalScores,
   applyModifier,
   applyModifiers,
   getByPath,
   setByPath,
   clampToConstraints,
   hashState,
+  seededRandom,
+  normalizeVotingRules,
+  DEFAULT_VOTING_RULES,
+  MIN_EXPOSABLE_CORRUPTION,
+  REJOIN_COOLDOWN_TICKS,
+  ticksUntilRejoin,
   HARD_CONSTRAINTS,
   THRESHOLD_TRIGGERS,
   ACTION_PROCESSORS,
+  ACTION_REGISTRY,
+  findAction,
+  listActions,
+  checkAction,
 };
+
+export type { TickLogEntry, AISystemRegistry, TickOptions, Player, Law, LawView, MovementListing, NewsPage, FinalScore, GhostView, EliminationReason };
@@ -0,0 +1,182 @@
+// ============================================================================
+// They Voted For This — Deterministic Tick Replay
+// ============================================================================
+// Re-runs processTick offline against recorded inputs: a starting WorldState,
+// the actions each player had pending per tick, and the ai_outputs the live
+// server logged in each TickLogEntry. No Claude API access is needed.
+//
+// The replay compares every tick's state_snapshot_hash with the recorded one
+// and stops at the first divergence. If the frame carries the state the live
+// server ended that tick with, the two states are diffed field by field.
+// ============================================================================
+
+import { processTick } from "./core-engine";
+import type {
+  WorldState,
+  PlayerAction,
+  Player,
+  TickLogEntry,
+  AISystemRegistry,
+} from "./core-engine";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReplayFrame {
+  /** Pending actions per player id, as they stood when the tick fired */
+  actions: Record<string, PlayerAction[]>;
+  /** Players who joined during this tick's action window */
+  joined?: Record<string, Player>;
+  /** Eliminated players who came back in this window, as the server rebuilt them */
+  rejoined?: Record<string, Player>;
+  /** The log entry the live server wrote for this tick */
+  log: TickLogEntry;
+  /** Optional: the live state after this tick, used to diff on divergence */
+  expected_state?: WorldState;
+}
+
+export interface StateDifference {
+  path: string;
+  expected: any;
+  actual: any;
+}
+
+export interface ReplayReport {
+  ticks_replayed: number;
+  /** Tick number of the first hash mismatch, or null if every tick matched */
+  diverged_at: number | null;
+  expected_hash: string | null;
+  actual_hash: string | null;
+  /** Field-level diff at the divergent tick; empty without expected_state */
+  differences: StateDifference[];
+  /** Replayed state, as of the last tick processed */
+  state: WorldState;
+}
+
+// ============================================================================
+// RECORDED AI REGISTRY
+// ============================================================================
+// Serves the logged outputs back in place of live AI calls. A missing output
+// means the live call failed, so the replay throws to send processTick down
+// the same fallback path it took at the time. Crisis and Historian may
+// legitimately answer null, which takes the same path either way.
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function recorded<T>(system: string, tick: number, value: any): T {
+  if (value === null || value === undefined) {
+    throw new Error(`No recorded ${system} output for tick ${tick}`);
+  }
+  return clone(value);
+}
+
+export function buildRecordedAIRegistry(log: TickLogEntry): AISystemRegistry {
+  const outputs = log.ai_outputs ?? {};
+  const judiciary: any[] = outputs.judiciary ?? [];
+
+  return {
+    stateAnalyst: async () => recorded("state_analyst", log.tick, outputs.state_analyst),
+
+    // Laws are matched by id: a failed ruling leaves no entry in the log
+    judiciary: async ({ law }) =>
+      recorded("judiciary", log.tick, judiciary.find(j => j?.law_id === law.id)),
+
+    media: async () => recorded("media", log.tick, outputs.media),
+    politicalReaction: async () => recorded("political_reaction", log.tick, outputs.political_reaction),
+    crisis: async () => clone(outputs.crisis ?? null),
+    historian: async () => clone(outputs.historian ?? null),
+  };
+}
+
+// ============================================================================
+// STATE DIFF
+// ============================================================================
+
+export function diffStates(
+  expected: any,
+  actual: any,
+  limit = 100,
+  path = "",
+  out: StateDifference[] = [],
+): StateDifference[] {
+  if (out.length >= limit) return out;
+
+  const bothObjects =
+    expected !== null && actual !== null &&
+    typeof expected === "object" && typeof actual === "object" &&
+    Array.isArray(expected) === Array.isArray(actual);
+
+  if (!bothObjects) {
+    if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+      out.push({ path: path || "(root)", expected, actual });
+    }
+    return out;
+  }
+
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  for (const key of keys) {
+    const child = Array.isArray(expected) ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+    diffStates(expected[key], actual[key], limit, child, out);
+    if (out.length >= limit) break;
+  }
+  return out;
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+export async function replayTicks(
+  initial: WorldState,
+  frames: ReplayFrame[],
+): Promise<ReplayReport> {
+  let state = clone(initial);
+  let replayed = 0;
+
+  for (const frame of frames) {
+    for (const [id, player] of Object.entries(frame.joined ?? {})) {
+      if (!state.players[id]) state.players[id] = clone(player);
+    }
+    // A rejoin replaces the old life outright, outside processTick
+    for (const [id, player] of Object.entries(frame.rejoined ?? {})) {
+      state.players[id] = clone(player);
+    }
+    for (const [id, player] of Object.entries(state.players)) {
+      player.actions_pending = clone(frame.actions[id] ?? []);
+    }
+
+    if (state.meta.tick !== frame.log.tick) {
+      throw new Error(`Frame for tick ${frame.log.tick} does not follow state at tick ${state.meta.tick}`);
+    }
+
+    const result = await processTick(state, buildRecordedAIRegistry(frame.log), {
+      now: new Date(frame.log.timestamp),
+      actionOrder: frame.log.action_order,
+    });
+    state = result.state;
+    replayed++;
+
+    if (result.log.state_snapshot_hash !== frame.log.state_snapshot_hash) {
+      return {
+        ticks_replayed: replayed,
+        diverged_at: frame.log.tick,
+        expected_hash: frame.log.state_snapshot_hash,
+        actual_hash: result.log.state_snapshot_hash,
+        differences: frame.expected_state ? diffStates(frame.expected_state, state) : [],
+        state,
+      };
+    }
+  }
+
+  return {
+    ticks_replayed: replayed,
+    diverged_at: null,
+    expected_hash: null,
+    actual_hash: null,
+    differences: [],
+    state,
+  };
+}
@@ -9,6 +9,19 @@
 export interface CreateServerRequest {
   playerName: string;
   playerRole: "citizen" | "business_owner" | "politician";
+  votingRules?: Partial<VotingRules>; // omitted fields use the engine defaults
+}
+
+export type LawCategory = "general" | "fiscal" | "civil_rights" | "security" | "constitutional";
+
+export interface VotingRules {
+  quorum: number;
+  majority: number;
+  supermajority: number;
+  supermajority_categories: LawCategory[];
+  bicameral: boolean;
+  voting_window_ticks: number;
+  influence_weight: number;
 }
 
 export interface CreateServerResponse {
@@ -31,6 +44,20 @@ export interface JoinServerResponse {
   tickDeadline: string;
 }
 
+export interface RejoinServerRequest {
+  playerId: string;
+  playerToken: string;
+  playerRole: "citizen" | "business_owner" | "politician";
+  playerName?: string; // keeps the old name if omitted
+}
+
+export interface RejoinServerResponse {
+  playerId: string;
+  role: "citizen" | "business_owner" | "politician";
+  tick: number;
+  tickDeadline: string;
+}
+
 export interface SubmitActionRequest {
   playerId: string;
   playerToken: string;
@@ -73,17 +100,57 @@ export interface PlayerViewResponse {
     tick: number;
     role: string;
     wealth: number;
-    headlines: { text: string; bias: string }[];
-    rumors: { text: string }[];
+    headlines: { id: string; text: string; bias: string }[];
+    rumors: { id: string; text: string }[];
+    fact_checks: { story_id: string; kind: "headline" | "rumor"; text: string; band: TruthBand; tick: number }[];
     market_signals: {
       price_trend: "rising" | "falling" | "stable";
       availability: "abundant" | "normal" | "scarce" | "shortage";
+      firms: {
+        id: string;
+        name: string;
+        price: "cheap" | "fair" | "pricey";
+        stock: "plenty" | "low" | "sold out";
+      }[];
     };
     government_signals: {
       approval_vague: "popular" | "mixed" | "unpopular" | "crisis";
       active_laws: number;
+      election: {
+        phase: "scheduled" | "campaign";
+        ticks_until: number | null;
+        candidates: { id: string; name: string }[];
+        last_winners: string[];
+        last_margin: "landslide" | "comfortable" | "narrow" | null;
+      };
+      voting_rules: VotingRules;
+      bills: {
+        id: string;
+        kind: "law" | "repeal" | "amendment";
+        category: LawCategory;
+        excerpt: string;
+        status: "proposed" | "voting";
+        stage: "politicians" | "citizens" | "joint" | null;
+        closes_in: number | null;
+        needs: "majority" | "supermajority";
+        can_vote: boolean;
+      }[];
     };
     movement_id: string | null;
+    movement: {
+      id: string;
+      name: string;
+      type: MovementType;
+      leader: string | null;
+      is_leader: boolean;
+      members: number;
+      demands: string[];
+      action_ready: boolean;
+    } | null;
+    last_tick_report: {
+      tick: number;
+      actions: { action: string; result: "done" | "failed" | "refused" | "unclear"; note: string }[];
+    } | null;
     available_actions: string[];
     role_specific: Record<string, any>;
   };
@@ -92,89 +159,201 @@ export interface PlayerViewResponse {
   tickDeadline: string;
 }
 
-// ---- Action Definitions per Role ----
+/** What an investigation turns up; the score behind it stays hidden */
+export type TruthBand = "accurate" | "spun" | "distorted" | "fabricated" | "unverifiable";
 
-export const ACTIONS_BY_ROLE: Record<string, ActionDef[]> = {
-  citizen: [
-    { type: "work", label: "Work", params: [] },
-    { type: "consume", label: "Consume Goods", params: [] },
-    {
-      type: "vote_law",
-      label: "Vote on Law",
-      params: [
-        { name: "law_id", type: "text", label: "Law ID" },
-        { name: "vote", type: "select", label: "Vote", options: ["for", "against", "abstain"] },
-      ],
-    },
-    {
-      type: "join_movement",
-      label: "Join Movement",
-      params: [{ name: "movement_id", type: "text", label: "Movement ID" }],
-    },
-    { type: "leave_movement", label: "Leave Movement", params: [] },
-  ],
-  business_owner: [
-    { type: "produce", label: "Produce Goods", params: [] },
-    {
-      type: "set_wages",
-      label: "Set Wages",
-      params: [
-        { name: "wage_level", type: "number", label: "Wage Level (0.1-10)" },
-      ],
-    },
-    {
-      type: "lobby",
-      label: "Lobby Politician",
-      params: [
-        { name: "politician_id", type: "text", label: "Politician ID" },
-        { name: "amount", type: "number", label: "Amount" },
-      ],
-    },
-    { type: "evade_taxes", label: "Evade Taxes", params: [] },
-    { type: "comply_taxes", label: "Comply with Taxes", params: [] },
-  ],
-  politician: [
-    {
-      type: "propose_law",
-      label: "Propose Law",
-      params: [{ name: "text", type: "textarea", label: "Law Text" }],
-    },
-    {
-      type: "vote_law_politician",
-      label: "Vote on Law",
-      params: [
-        { name: "law_id", type: "text", label: "Law ID" },
-        { name: "vote", type: "select", label: "Vote", options: ["for", "against", "abstain"] },
-      ],
-    },
-    {
-      type: "allocate_budget",
-      label: "Allocate Budget",
-      params: [
-        { name: "welfare", type: "number", label: "Welfare (0-1)" },
-        { name: "infrastructure", type: "number", label: "Infrastructure (0-1)" },
-        { name: "enforcement", type: "number", label: "Enforcement (0-1)" },
-        { name: "education", type: "number", label: "Education (0-1)" },
-        { name: "discretionary", type: "number", label: "Discretionary (0-1)" },
-      ],
-    },
-    {
-      type: "publish_statement",
-      label: "Publish Statement",
-      params: [{ name: "text", type: "textarea", label: "Statement Text" }],
-    },
-  ],
-};
+// ---- Ghost View (GET /view for an eliminated player) ----
+
+export type EliminationReason = "revolution" | "lost_election" | "bankruptcy" | "emigration" | "corruption";
+
+export interface GhostViewResponse {
+  ghost: {
+    tick: number;
+    role: string;
+    eliminated_tick: number | null;
+    reason: EliminationReason | null;
+    rejoin_in: number; // ticks until POST /rejoin is allowed; 0 = now
+    headlines: { text: string; bias: string }[];
+    rumors: { text: string }[];
+    approval_vague: "popular" | "mixed" | "unpopular" | "crisis";
+    era: string | null;
+    legacy_title: string | null;
+  };
+  tick: number;
+  phase: string;
+  tickDeadline: string;
+}
+
+// ---- Laws ----
+
+export interface LawView {
+  id: string;
+  kind: "law" | "repeal" | "amendment";
+  target_law_id: string | null;
+  category: LawCategory;
+  text: string;
+  status: "proposed" | "voting" | "active" | "enacted" | "repealed" | "rejected" | "invalidated";
+  proposed_by: string;
+  proposed_tick: number;
+  stage: "politicians" | "citizens" | "joint" | null;
+  closes_in: number | null;
+  needs: "majority" | "supermajority";
+  turnout: "light" | "moderate" | "heavy" | null; // open stages only
+  result: {
+    outcome: "passed" | "failed";
+    support: "overwhelming" | "broad" | "split" | "weak" | "none";
+  } | null;
+  can_vote: boolean;
+  activated_tick: number | null;
+  amended_tick: number | null;
+  repealed_tick: number | null;
+  expires_in: number | null;
+  fiscal: { variable: "economy.tax_rate" | "economy.budget.spending"; value: number } | null;
+  interpretation: { text: string; ambiguities: string[]; in_force: boolean } | null;
+}
+
+export interface LawListResponse {
+  laws: LawView[];
+  voting_rules: VotingRules;
+  tick: number;
+}
+
+export interface LawDetailResponse {
+  law: LawView;
+  bills: LawView[]; // repeals and amendments filed against this law
+  tick: number;
+}
+
+// ---- Movements ----
+
+export type MovementType = "reform" | "populist" | "radical" | "separatist" | "labor" | "business";
+
+export interface MovementListing {
+  id: string;
+  name: string;
+  type: MovementType;
+  demands: string[];
+  leader: string | null;
+  founded_by: string | null;
+  created_tick: number;
+  size: "handful" | "growing" | "large" | "mass";
+  strength: "fringe" | "visible" | "strong" | "dominant";
+  recently_active: boolean;
+  is_member: boolean;
+}
+
+export interface MovementListResponse {
+  movements: MovementListing[];
+  tick: number;
+}
+
+// ---- News Archive (GET /news) ----
+
+export interface NewsEntry {
+  headline_id: string;
+  tick: number;
+  text: string;
+  bias: "left" | "right" | "populist" | "establishment" | "neutral";
+  articles: { id: string; body: string; bias: string; mentions: string[] }[];
+}
+
+export interface NewsArchiveResponse {
+  entries: NewsEntry[];
+  total: number;
+  next_offset: number | null;
+  tick: number;
+}
+
+export interface ActionListResponse {
+  actions: ActionDef[];
+}
+
+// ---- Action Definitions ----
+// The registry itself lives in shared/core-engine.ts; GET /actions serves it.
 
 export interface ActionDef {
   type: string;
+  roles: ("citizen" | "business_owner" | "politician")[];
   label: string;
   params: ActionParamDef[];
+  cost?: ActionCost;
+  /** Replaces `cost` for each role listed, where roles pay in different ways */
+  costByRole?: Partial<Record<ActionDef["roles"][number], ActionCost>>;
+  cooldown?: number;  // ticks before the same player may take it again
+  requires?: ActionPrerequisite[];
+  /** Number params that must add up to this total (within 0.01) */
+  sumTo?: number;
+}
+
+export type ActionPrerequisite =
+  | "employed"
+  | "unemployed"
+  | "in_movement"
+  | "movement_leader"
+  | "in_office"         // politicians must hold a seat; other roles pass
+  | "politician_exists" // params.politician_id names a politician
+  | "law_in_voting"     // params.law_id names a law open for a vote
+  | "law_active"        // params.law_id names a law in force
+  | "campaign_open"
+  | "story_exists";     // params.story_id names a headline or rumor still on file
+
+export interface ActionCost {
+  wealth?: number;
+  influence?: number;
 }
 
+type NoParams = Record<string, never>;
+type Vote = "for" | "against" | "abstain";
+
+/**
+ * Params each action runs with, once validated against its registry entry:
+ * numbers coerced, text trimmed, blank optional params dropped.
+ */
+export interface ActionParamsMap {
+  work: NoParams;
+  consume: { business_id?: string };
+  vote_law: { law_id: string; vote: Vote };
+  join_movement: { movement_id: string };
+  leave_movement: NoParams;
+  found_movement: { name: string; type: MovementType; demands?: string };
+  raise_demand: { text: string };
+  back_leader: { player_id: string };
+  movement_action: { kind: "strike" | "march" | "boycott"; business_id?: string };
+  endorse: { politician_id: string };
+  apply_job: { business_id?: string };
+  quit_job: NoParams;
+  produce: NoParams;
+  set_price: { price: number };
+  set_wages: { wage_level: number };
+  lobby: { politician_id: string; amount?: number };
+  evade_taxes: NoParams;
+  comply_taxes: NoParams;
+  post_jobs: { slots: number };
+  intimidate: { player_id: string };
+  propose_law: { text: string; sunset_ticks?: number; category?: "auto" | LawCategory };
+  propose_repeal: { law_id: string; text?: string };
+  propose_amendment: { law_id: string; text: string; sunset_ticks?: number };
+  set_tax_rate_proposal: { rate: number };
+  set_spending_level: { spending: number };
+  vote_law_politician: { law_id: string; vote: Vote };
+  allocate_budget: { welfare: number; infrastructure: number; enforcement: number; education: number; discretionary: number };
+  publish_statement: { text: string };
+  campaign: { message?: string };
+  investigate: { story_id: string };
+  debunk: { story_id: string };
+  amplify: { story_id: string };
+}
+
+export type ActionType = keyof ActionParamsMap;
+
 export interface ActionParamDef {
   name: string;
   type: "text" | "number" | "textarea" | "select";
   label: string;
   options?: string[];
+  required?: boolean;  // blank is allowed otherwise, and the param is dropped
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  maxLength?: number;
 }